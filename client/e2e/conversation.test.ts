@@ -0,0 +1,503 @@
+/**
+ * Scripted voice conversations, end to end
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Message } from "../src/types/messages";
+import { DEFAULT_TURN_SETTINGS, createTurnController } from "../src/utils/turns";
+import { startHarness } from "./harness";
+import type { Harness } from "./harness";
+
+let harness: Harness;
+
+beforeAll(async () => {
+  harness = await startHarness();
+});
+
+afterAll(async () => {
+  await harness?.stop();
+});
+
+const toolNames = (sessionUpdate: Message): string[] =>
+  sessionUpdate.session.tools.map((tool: { function: { name: string } }) => tool.function.name);
+
+/**
+ * Add a card that is due for review right away
+ */
+async function seedFlashcard(question: string, answer: string) {
+  const response = await harness.apiFetch("/flashcards", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ question, answer, topic: "Chemistry" }),
+  });
+  expect(response.status).toBe(201);
+}
+
+describe("learn agent", () => {
+  it("creates a flashcard and records the conversation", async () => {
+    await harness.signUp();
+    const conversation = await harness.startConversation("learn", "Biology");
+    const { realtime, sessionId } = conversation;
+
+    expect(toolNames(conversation.sessionUpdate)).toEqual(["create_flashcard", "switch_agent"]);
+
+    realtime.userSays("What does the mitochondria do?");
+    realtime.assistantSays("It turns food into energy for the cell.");
+    const output = await realtime.callTool("create_flashcard", {
+      question: "What is the powerhouse of the cell?",
+      answer: "The mitochondria",
+      topic: "Biology",
+    });
+
+    expect(output).toMatchObject({ success: true, topic: "Biology" });
+    expect(conversation.messages).toContainEqual(
+      expect.objectContaining({
+        type: "flashcard.created",
+        question: "What is the powerhouse of the cell?",
+      }),
+    );
+
+    const { storage, currentUserId } = harness;
+    const cards = await storage.flashcards.find(currentUserId(), { sessionId });
+    expect(cards).toEqual([
+      expect.objectContaining({ answer: "The mitochondria", topic: "Biology" }),
+    ]);
+
+    // Turns are saved in the background as they finish
+    await vi.waitFor(async () => {
+      const entries = await storage.transcripts.find(sessionId, currentUserId());
+      // The server logs the new card itself, the client saves the spoken turns
+      expect(entries.map((entry) => entry.role).sort()).toEqual([
+        "assistant",
+        "flashcard",
+        "tool",
+        "user",
+      ]);
+      expect(entries.find((entry) => entry.role === "assistant")?.content).toBe(
+        "It turns food into energy for the cell.",
+      );
+    });
+
+    conversation.disconnect();
+  });
+
+  it("refuses tools from another agent's toolset", async () => {
+    await harness.signUp();
+    const conversation = await harness.startConversation("learn");
+    const { realtime, sessionId } = conversation;
+
+    const output = await realtime.callTool("validate_answer", { grade: "good" });
+
+    expect(String(output.error)).toContain("Tool not allowed for learn agent");
+    const attempts = await harness.storage.attempts.find(harness.currentUserId(), { sessionId });
+    expect(attempts).toEqual([]);
+
+    conversation.disconnect();
+  });
+});
+
+describe("review agent", () => {
+  it("quizzes a due card and reschedules it", async () => {
+    await harness.signUp();
+    await seedFlashcard("What is the chemical symbol for gold?", "Au");
+    const conversation = await harness.startConversation("review");
+    const { realtime, sessionId } = conversation;
+
+    const served = await realtime.callTool("get_random_flashcard", {});
+    expect(served).toMatchObject({
+      found: true,
+      question: "What is the chemical symbol for gold?",
+      progress: { reviewed: 0, total: 1 },
+    });
+    // So a review screen can show the card being quizzed on
+    expect(conversation.messages).toContainEqual(
+      expect.objectContaining({ type: "flashcard.served", answer: "Au" }),
+    );
+
+    realtime.assistantSays("What is the chemical symbol for gold?");
+    realtime.userSays("Au");
+    const graded = await realtime.callTool("validate_answer", { grade: "good" });
+    expect(graded).toMatchObject({ recorded: true, grade: "good", isCorrect: true });
+
+    // The card is only graded once, and bad notes are refused
+    const again = await realtime.callTool("validate_answer", { grade: "good" });
+    expect(again).toMatchObject({ recorded: false, error: "No current flashcard to validate" });
+    const malformed = await realtime.callTool("validate_answer", {
+      grade: "good",
+      missedPoints: "the symbol",
+    });
+    expect(malformed).toMatchObject({ recorded: false });
+
+    const { storage, currentUserId } = harness;
+    const [attempt] = await storage.attempts.find(currentUserId(), { sessionId });
+    expect(attempt).toMatchObject({ grade: "good", isCorrect: true });
+
+    const card = await storage.flashcards.findById(currentUserId(), attempt.flashcardId!);
+    expect(card?.dueAt.getTime()).toBeGreaterThan(Date.now());
+    expect(card?.gradeCounts).toEqual({ good: 1 });
+
+    const finished = await realtime.callTool("get_random_flashcard", {});
+    expect(finished).toMatchObject({ found: false, progress: { reviewed: 1, total: 1 } });
+
+    conversation.disconnect();
+  });
+});
+
+describe("flip-card review", () => {
+  it("serves and grades due cards over REST without a realtime connection", async () => {
+    await harness.signUp();
+    await seedFlashcard("What is the chemical symbol for iron?", "Fe");
+    // Loaded after the harness points the client at the test server
+    const review = await import("../src/utils/review");
+
+    const sessionId = await review.startReviewSession();
+    const served = await review.fetchNextFlashcard(sessionId);
+    expect(served).toMatchObject({
+      found: true,
+      question: "What is the chemical symbol for iron?",
+      answer: "Fe",
+      progress: { reviewed: 0, total: 1 },
+    });
+
+    const graded = await review.gradeFlashcard(sessionId, "hard");
+    expect(graded).toMatchObject({ recorded: true, isCorrect: true, progress: { reviewed: 1 } });
+
+    const { storage, currentUserId } = harness;
+    const [attempt] = await storage.attempts.find(currentUserId(), { sessionId });
+    expect(attempt).toMatchObject({ grade: "hard", isCorrect: true });
+
+    const finished = await review.fetchNextFlashcard(sessionId);
+    expect(finished).toMatchObject({ found: false, progress: { reviewed: 1, total: 1 } });
+    // Grading with no card served is refused rather than recorded twice
+    await expect(review.gradeFlashcard(sessionId, "good")).rejects.toThrow("No current flashcard");
+    // With nothing said, the sitting stays out of the history
+    expect(await storage.sessions.find(currentUserId(), { limit: 10 })).toEqual([]);
+  });
+
+  it("finishes the sitting when cards are passed over without a grade", async () => {
+    await harness.signUp();
+    await seedFlashcard("What is the chemical symbol for iron?", "Fe");
+    await seedFlashcard("What is the chemical symbol for gold?", "Au");
+    const review = await import("../src/utils/review");
+
+    const sessionId = await review.startReviewSession();
+    await review.fetchNextFlashcard(sessionId);
+    const second = await review.fetchNextFlashcard(sessionId);
+    expect(second.progress).toEqual({ reviewed: 0, skipped: 1, total: 2, remaining: 1 });
+
+    await review.gradeFlashcard(sessionId, "good");
+    const finished = await review.fetchNextFlashcard(sessionId);
+    expect(finished).toMatchObject({
+      found: false,
+      message: expect.stringContaining("1 went ungraded"),
+      progress: { reviewed: 1, skipped: 1, total: 2, remaining: 0 },
+    });
+  });
+});
+
+describe("switching agents", () => {
+  it("hands the live session from learn to review", async () => {
+    await harness.signUp();
+    await seedFlashcard("What is the atomic number of carbon?", "6");
+    const conversation = await harness.startConversation("learn");
+    const { realtime, sessionId } = conversation;
+
+    realtime.userSays("Let's review my flashcards.");
+    const output = await realtime.callTool("switch_agent", {
+      agent: "review",
+      reason: "The user asked to review their flashcards",
+    });
+
+    // The model only sees the handoff; the new instructions go in a session.update
+    expect(output).toMatchObject({ switched: true, agent: "review" });
+    expect(output).not.toHaveProperty("instructions");
+    const update = await realtime.waitFor("session.update");
+    expect(toolNames(update)).toEqual(["get_random_flashcard", "validate_answer", "switch_agent"]);
+    expect(update.session.instructions).toContain("## Handoff");
+
+    const session = await harness.storage.sessions.findOne(sessionId, harness.currentUserId());
+    expect(session?.agent).toBe("review");
+
+    const served = await realtime.callTool("get_random_flashcard", {});
+    expect(served).toMatchObject({ found: true, question: "What is the atomic number of carbon?" });
+
+    conversation.disconnect();
+  });
+});
+
+describe("reconnecting", () => {
+  it("resumes a dropped session where it left off", async () => {
+    await harness.signUp();
+    const conversation = await harness.startConversation("learn", "Botany");
+    const { realtime, sessionId } = conversation;
+    await vi.waitFor(() => expect(conversation.connection().status).toBe("live"));
+
+    realtime.userSays("How do plants make food?");
+    realtime.assistantSays("They turn sunlight into sugar through photosynthesis.");
+    const { storage, currentUserId } = harness;
+    const started = await storage.sessions.findOne(sessionId, currentUserId());
+
+    const reconnected = conversation.nextConnection();
+    realtime.drop();
+    const next = await reconnected;
+    expect(conversation.connection()).toMatchObject({ status: "reconnecting", attempt: 1 });
+
+    // Speech during the drop is held back until the new connection is ready
+    const speech = Buffer.alloc(4800).toString("base64");
+    conversation.sendMessage({ type: "input_audio_buffer.append", audio: speech });
+
+    // The new connection is briefed on the conversation instead of greeting again
+    next.send({ type: "conversation.created", conversation: { id: "conv_resumed" } });
+    // Refreshing keeps the session from expiring under an active user
+    const refreshed = await storage.sessions.findOne(sessionId, currentUserId());
+    expect(refreshed!.expiresAt.getTime()).toBeGreaterThan(started!.expiresAt.getTime());
+    const update = await next.waitFor("session.update");
+    expect(toolNames(update)).toEqual(["create_flashcard", "switch_agent"]);
+    expect(update.session.instructions).toContain("## Resuming");
+    expect(update.session.instructions).toContain("sunlight into sugar");
+    expect(next.received.map((event) => event.type)).not.toContain("input_audio_buffer.append");
+    next.send({ type: "session.updated", session: update.session });
+    expect(await next.waitFor("input_audio_buffer.append")).toMatchObject({ audio: speech });
+    await vi.waitFor(() => expect(conversation.connection().status).toBe("live"));
+
+    const output = await next.callTool("create_flashcard", {
+      question: "What process do plants use to make sugar?",
+      answer: "Photosynthesis",
+      topic: "Botany",
+    });
+    expect(output).toMatchObject({ success: true });
+    expect(next.received.filter((event) => event.type === "conversation.item.create")).toEqual([
+      expect.objectContaining({ item: expect.objectContaining({ type: "function_call_output" }) }),
+    ]);
+
+    const cards = await storage.flashcards.find(currentUserId(), { sessionId });
+    expect(cards).toHaveLength(1);
+
+    conversation.disconnect();
+  });
+});
+
+describe("interrupting", () => {
+  it("keeps only the part of a reply the user heard", async () => {
+    await harness.signUp();
+    const conversation = await harness.startConversation("learn", "Geology");
+    const { realtime, sessionId } = conversation;
+    const rate = conversation.sessionUpdate.session.audio.output.format.rate;
+
+    realtime.userSays("How do volcanoes form?");
+    realtime.send({ type: "response.created", response: { id: "resp_volcano" } });
+    // Each word's half second of audio arrives just after its text
+    for (const [index, word] of ["Magma", "rises", "through", "the", "crust."].entries()) {
+      const part = { response_id: "resp_volcano", item_id: "item_volcano" };
+      realtime.send({
+        type: "response.output_audio_transcript.delta",
+        ...part,
+        delta: index === 0 ? word : ` ${word}`,
+      });
+      realtime.send({
+        type: "response.output_audio.delta",
+        ...part,
+        delta: Buffer.alloc(rate).toString("base64"),
+      });
+    }
+    realtime.send({ type: "response.done", response: { id: "resp_volcano", status: "completed" } });
+
+    // The user cut in 1.2 seconds into the reply
+    realtime.send({
+      type: "conversation.item.truncated",
+      item_id: "item_volcano",
+      content_index: 0,
+      audio_end_ms: 1200,
+    });
+
+    const { storage, currentUserId } = harness;
+    await vi.waitFor(async () => {
+      const entries = await storage.transcripts.find(sessionId, currentUserId());
+      expect(entries.find((entry) => entry.role === "assistant")?.content).toBe("Magma rises");
+    });
+
+    conversation.disconnect();
+  });
+});
+
+describe("turn-taking", () => {
+  const turnTypes = (events: Message[]) =>
+    events.map((event) => event.type).filter((type) => type !== "input_audio_buffer.append");
+
+  it("commits push-to-talk turns when the button is released", async () => {
+    await harness.signUp();
+    const conversation = await harness.startConversation("learn", undefined, {
+      turnDetection: null,
+    });
+    const { realtime, sessionUpdate } = conversation;
+    expect(sessionUpdate.session.turn_detection).toBeNull();
+
+    const rate = sessionUpdate.session.audio.input.format.rate;
+    const onSpeechStart = vi.fn();
+    const turns = createTurnController({ ...DEFAULT_TURN_SETTINGS, mode: "push_to_talk" }, rate, {
+      send: conversation.sendMessage,
+      onSpeechStart,
+    });
+    // A tenth of a second of audio
+    const chunk = Buffer.alloc(rate / 5).toString("base64");
+    const sentBefore = realtime.received.length;
+
+    turns.audio(chunk, 0.1);
+    turns.press();
+    turns.audio(chunk, 0.1);
+    turns.audio(chunk, 0.1);
+    turns.release();
+
+    await realtime.waitFor("response.create");
+    const sent = realtime.received.slice(sentBefore);
+    expect(turnTypes(sent)).toEqual([
+      "input_audio_buffer.clear",
+      "input_audio_buffer.commit",
+      "response.create",
+    ]);
+    expect(sent.filter((event) => event.type === "input_audio_buffer.append")).toHaveLength(2);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+
+    conversation.disconnect();
+  });
+
+  it("sends only speech under client VAD, ending the turn after a pause", async () => {
+    await harness.signUp();
+    const conversation = await harness.startConversation("learn", undefined, {
+      turnDetection: null,
+    });
+    const { realtime, sessionUpdate } = conversation;
+
+    const rate = sessionUpdate.session.audio.input.format.rate;
+    const settings = { ...DEFAULT_TURN_SETTINGS, mode: "client_vad" as const };
+    const turns = createTurnController(settings, rate, {
+      send: conversation.sendMessage,
+      onSpeechStart: () => {},
+    });
+    const chunk = Buffer.alloc(rate / 5).toString("base64");
+    const sentBefore = realtime.received.length;
+    const quiet = settings.clientThreshold / 2;
+    const loud = settings.clientThreshold * 2;
+
+    // A second of background noise, a short knock, then half a second of speech
+    for (let i = 0; i < 10; i++) turns.audio(chunk, quiet);
+    turns.audio(chunk, loud);
+    turns.audio(chunk, quiet);
+    for (let i = 0; i < 5; i++) turns.audio(chunk, loud);
+    for (let i = 0; i < settings.silenceDurationMs / 100; i++) turns.audio(chunk, quiet);
+
+    await realtime.waitFor("response.create");
+    const sent = realtime.received.slice(sentBefore);
+    expect(turnTypes(sent)).toEqual(["input_audio_buffer.commit", "response.create"]);
+    // The speech, what led up to it and the pause after it
+    const leadInChunks = (settings.prefixPaddingMs + 200) / 100;
+    expect(sent.filter((event) => event.type === "input_audio_buffer.append")).toHaveLength(
+      leadInChunks + 3 + settings.silenceDurationMs / 100,
+    );
+
+    conversation.disconnect();
+  });
+});
+
+describe("text chat", () => {
+  it("sends typed messages and records the text replies", async () => {
+    await harness.signUp();
+    const conversation = await harness.startConversation("learn", "Astronomy", {
+      turnDetection: null,
+      textReplies: true,
+    });
+    const { realtime, sessionId, sessionUpdate } = conversation;
+    expect(sessionUpdate.session.output_modalities).toEqual(["text"]);
+    await vi.waitFor(() => expect(conversation.connection().status).toBe("live"));
+
+    conversation.sendText("Why is the sky dark at night?");
+    const typed = await realtime.waitFor(
+      "conversation.item.create",
+      (event) => event.item?.content?.[0]?.text === "Why is the sky dark at night?",
+    );
+    expect(typed.item).toMatchObject({ role: "user", content: [{ type: "input_text" }] });
+    await vi.waitFor(() => expect(realtime.received.at(-1)?.type).toBe("response.create"));
+
+    realtime.send({ type: "response.created", response: { id: "resp_night" } });
+    for (const [index, word] of ["The", "universe", "is", "expanding."].entries()) {
+      realtime.send({
+        type: "response.output_text.delta",
+        response_id: "resp_night",
+        item_id: "item_night",
+        delta: index === 0 ? word : ` ${word}`,
+      });
+    }
+    realtime.send({ type: "response.done", response: { id: "resp_night", status: "completed" } });
+    await vi.waitFor(() =>
+      expect(conversation.messages.map((message) => message.type)).toContain("response.done"),
+    );
+    // Leaving straight after the reply still saves it
+    conversation.disconnect();
+
+    const { storage, currentUserId } = harness;
+    await vi.waitFor(async () => {
+      const entries = await storage.transcripts.find(sessionId, currentUserId());
+      expect(entries.map(({ role, content }) => ({ role, content }))).toEqual([
+        { role: "user", content: "Why is the sky dark at night?" },
+        { role: "assistant", content: "The universe is expanding." },
+      ]);
+    });
+  });
+});
+
+describe("session history", () => {
+  it("pages through sessions that started at the same moment", async () => {
+    await harness.signUp();
+    const { storage, currentUserId } = harness;
+    const createdAt = new Date("2025-06-01T12:00:00.000Z");
+    for (const sessionId of ["session-a", "session-b", "session-c"]) {
+      await storage.sessions.create({
+        sessionId,
+        userId: currentUserId(),
+        agent: "learn",
+        createdAt,
+        expiresAt: createdAt,
+      });
+    }
+
+    const listed: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const params = new URLSearchParams({ limit: "2", ...(cursor ? { cursor } : {}) });
+      const response = await harness.apiFetch(`/sessions?${params}`);
+      expect(response.status).toBe(200);
+      const data = await response.json();
+      listed.push(...data.sessions.map((s: { sessionId: string }) => s.sessionId));
+      cursor = data.nextCursor;
+    } while (cursor);
+
+    expect(listed).toEqual(["session-c", "session-b", "session-a"]);
+
+    const response = await harness.apiFetch("/sessions?cursor=not-a-cursor");
+    expect(response.status).toBe(400);
+  });
+
+  it("reports a bad transcript role once", async () => {
+    await harness.signUp();
+    const createdAt = new Date();
+    await harness.storage.sessions.create({
+      sessionId: "session-roles",
+      userId: harness.currentUserId(),
+      agent: "learn",
+      createdAt,
+      expiresAt: createdAt,
+    });
+
+    const response = await harness.apiFetch("/sessions/session-roles/transcript", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ entries: [{ role: "narrator", content: "Once upon a time" }] }),
+    });
+
+    expect(response.status).toBe(400);
+    const { details } = await response.json();
+    expect(details).toEqual([
+      { field: "entries[0].role", message: expect.stringContaining("must be one of") },
+    ]);
+  });
+});
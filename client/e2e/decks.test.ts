@@ -0,0 +1,154 @@
+/**
+ * Deck files: parsing and writing each format, and round trips through export and import
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ankiFormat } from "../../server/src/decks/anki";
+import type { DeckFormatName } from "../../server/src/decks";
+import { startHarness } from "./harness";
+import type { Harness } from "./harness";
+
+describe("Anki decks", () => {
+  it("decodes named and numeric HTML entities", () => {
+    const parsed = ankiFormat.parse(
+      "#html:true\nfish &amp; chips&#33;<br>twice\t&#x1F600; &lt;b&gt;&nbsp;bold\n",
+      "Imported",
+    );
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.cards).toEqual([
+      { question: "fish & chips!\ntwice", answer: "😀 <b> bold", topic: "Imported" },
+    ]);
+  });
+
+  it("keeps entities that aren't characters as written", () => {
+    const parsed = ankiFormat.parse(
+      "#html:true\n&#1114112;\t&#xFFFFFFF; &bogus;\nWhat is H2O?\tWater\n",
+      "Imported",
+    );
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.cards.map(({ question, answer }) => [question, answer])).toEqual([
+      ["&#1114112;", "&#xFFFFFFF; &bogus;"],
+      ["What is H2O?", "Water"],
+    ]);
+  });
+
+  it("round-trips text that looks like HTML, line breaks and deck names", () => {
+    const cards = [
+      { question: "Is 1 < 2 & 3 > 2?", answer: "Yes,\nboth are", topic: "Maths & Logic" },
+      { question: 'What does "<br>" do?', answer: "Breaks a line\tin HTML", topic: "Web" },
+    ];
+
+    const parsed = ankiFormat.parse(ankiFormat.serialize(cards), "Imported");
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.cards).toEqual(cards);
+  });
+});
+
+describe("deck round trips", () => {
+  let harness: Harness;
+
+  beforeAll(async () => {
+    harness = await startHarness();
+  });
+
+  afterAll(async () => {
+    await harness?.stop();
+  });
+
+  const exportDeck = async (format: DeckFormatName) => {
+    const response = await harness.apiFetch(`/flashcards/export?format=${format}`);
+    expect(response.status).toBe(200);
+    return response.text();
+  };
+
+  const importDeck = async (format: DeckFormatName, deck: string, dryRun = false) => {
+    const response = await harness.apiFetch(
+      `/flashcards/import?format=${format}&dryRun=${dryRun}`,
+      { method: "POST", headers: { "Content-Type": "text/plain" }, body: deck },
+    );
+    expect(response.status).toBe(200);
+    return response.json();
+  };
+
+  // The JSON export holds everything a deck can carry
+  const exportedCards = async () => JSON.parse(await exportDeck("json")).cards;
+
+  /**
+   * Give the current user two cards, one of them reviewed twice
+   */
+  async function seedReviewedDeck() {
+    for (const card of [
+      { question: "What is the chemical symbol for iron?", answer: "Fe\n(Latin: ferrum)" },
+      { question: "What is the atomic number of carbon?", answer: "6" },
+    ]) {
+      const response = await harness.apiFetch("/flashcards", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...card, topic: "Chemistry" }),
+      });
+      expect(response.status).toBe(201);
+    }
+
+    const { storage, currentUserId } = harness;
+    const [iron] = await storage.flashcards.find(currentUserId(), { search: "iron" });
+    await storage.attempts.create([
+      {
+        userId: currentUserId(),
+        flashcardId: iron._id,
+        grade: "again",
+        isCorrect: false,
+        missedPoints: ["the Latin name"],
+        attemptedAt: new Date("2025-03-01T09:00:00.000Z"),
+      },
+      {
+        userId: currentUserId(),
+        flashcardId: iron._id,
+        grade: "good",
+        isCorrect: true,
+        missedPoints: [],
+        attemptedAt: new Date("2025-03-02T09:00:00.000Z"),
+      },
+    ]);
+  }
+
+  it.each<DeckFormatName>(["csv", "json", "markdown"])(
+    "carries cards and their reviews through %s",
+    async (format) => {
+      await harness.signUp();
+      await seedReviewedDeck();
+      const original = await exportedCards();
+      expect(original[0].history).toHaveLength(2);
+      const deck = await exportDeck(format);
+
+      // Into a fresh account, previewing first
+      await harness.signUp();
+      const { storage, currentUserId } = harness;
+      const preview = await importDeck(format, deck, true);
+      expect(preview).toMatchObject({
+        dryRun: true,
+        summary: { created: 2, updated: 0, skipped: 0 },
+        errors: [],
+      });
+      expect(await storage.flashcards.count(currentUserId())).toBe(0);
+      expect(await storage.attempts.find(currentUserId())).toEqual([]);
+
+      const imported = await importDeck(format, deck);
+      expect(imported).toMatchObject({
+        summary: { created: 2, updated: 0, skipped: 0 },
+        errors: [],
+      });
+      expect(await exportedCards()).toEqual(original);
+      // The schedule is rebuilt from the reviews that came with the card
+      const [iron] = await storage.flashcards.find(currentUserId(), { search: "iron" });
+      expect(iron.gradeCounts).toEqual({ again: 1, good: 1 });
+
+      // Importing the same file again changes nothing
+      const again = await importDeck(format, deck);
+      expect(again.summary).toEqual({ created: 0, updated: 0, skipped: 2 });
+      expect(await storage.attempts.find(currentUserId())).toHaveLength(2);
+    },
+  );
+});
@@ -0,0 +1,178 @@
+/**
+ * Scripted stand-in for the realtime API
+ *
+ * Accepts the client's WebSocket the way the real API would and lets a test play the
+ * model's side of the conversation one event at a time, while recording everything
+ * the client sends.
+ */
+
+import { WebSocketServer } from "ws";
+import type { WebSocket } from "ws";
+import type { AddressInfo } from "net";
+import type { Message } from "../src/types/messages";
+
+const WAIT_TIMEOUT_MS = 5000;
+
+export interface FakeRealtimeConnection {
+  // Everything the client has sent, in order
+  received: Message[];
+  send: (event: Message) => void;
+  // Resolve with the first matching client event not already returned by waitFor
+  waitFor: (type: string, match?: (event: Message) => boolean) => Promise<Message>;
+  // Play the start of a conversation; resolves with the client's session.update
+  handshake: () => Promise<Message>;
+  userSays: (transcript: string) => void;
+  assistantSays: (text: string) => void;
+  // Call a tool and resolve with the output the client sends back
+  callTool: (name: string, args: Record<string, unknown>) => Promise<Record<string, unknown>>;
+  // End the connection from the API's side, as when a token expires
+  drop: () => void;
+}
+
+export interface FakeRealtimeServer {
+  url: string;
+  nextConnection: () => Promise<FakeRealtimeConnection>;
+  close: () => Promise<void>;
+}
+
+function createConnection(ws: WebSocket): FakeRealtimeConnection {
+  const received: Message[] = [];
+  const consumed = new Set<number>();
+  const waiters: (() => void)[] = [];
+  let nextId = 0;
+
+  const id = (prefix: string) => `${prefix}_${++nextId}`;
+
+  const send = (event: Message) => {
+    ws.send(JSON.stringify({ event_id: id("event"), ...event }));
+  };
+
+  ws.on("message", (data) => {
+    received.push(JSON.parse(data.toString()));
+    waiters.splice(0).forEach((check) => check());
+  });
+
+  const waitFor = (type: string, match: (event: Message) => boolean = () => true) =>
+    new Promise<Message>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const types = received.map((event) => event.type).join(", ");
+        reject(new Error(`Timed out waiting for ${type}; client sent: ${types}`));
+      }, WAIT_TIMEOUT_MS);
+
+      const check = () => {
+        const index = received.findIndex(
+          (event, i) => !consumed.has(i) && event.type === type && match(event),
+        );
+        if (index === -1) {
+          waiters.push(check);
+          return;
+        }
+        consumed.add(index);
+        clearTimeout(timer);
+        resolve(received[index]);
+      };
+      check();
+    });
+
+  const handshake = async () => {
+    send({ type: "conversation.created", conversation: { id: id("conv") } });
+    const update = await waitFor("session.update");
+    send({ type: "session.updated", session: update.session });
+    // The client opens with a scripted greeting
+    await waitFor("conversation.item.create", (event) => event.item?.role === "user");
+    await waitFor("response.create");
+    return update;
+  };
+
+  const userSays = (transcript: string) => {
+    const itemId = id("item");
+    send({ type: "input_audio_buffer.speech_started", audio_start_ms: 0, item_id: itemId });
+    send({ type: "input_audio_buffer.speech_stopped", audio_end_ms: 1000, item_id: itemId });
+    send({ type: "input_audio_buffer.committed", item_id: itemId });
+    send({
+      type: "conversation.item.added",
+      item: {
+        id: itemId,
+        type: "message",
+        role: "user",
+        content: [{ type: "input_audio", transcript }],
+      },
+    });
+  };
+
+  const assistantSays = (text: string) => {
+    const responseId = id("resp");
+    const itemId = id("item");
+    send({ type: "response.created", response: { id: responseId } });
+    text.split(" ").forEach((word, index) => {
+      send({
+        type: "response.output_audio_transcript.delta",
+        response_id: responseId,
+        item_id: itemId,
+        delta: index === 0 ? word : ` ${word}`,
+      });
+    });
+    // A few milliseconds of silence stands in for the spoken reply
+    send({
+      type: "response.output_audio.delta",
+      response_id: responseId,
+      item_id: itemId,
+      delta: Buffer.alloc(480).toString("base64"),
+    });
+    send({ type: "response.done", response: { id: responseId, status: "completed" } });
+  };
+
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const callId = id("call");
+    send({
+      type: "response.function_call_arguments.done",
+      name,
+      call_id: callId,
+      arguments: JSON.stringify(args),
+    });
+    const output = await waitFor(
+      "conversation.item.create",
+      (event) => event.item?.type === "function_call_output" && event.item.call_id === callId,
+    );
+    await waitFor("response.create");
+    return JSON.parse(output.item.output);
+  };
+
+  const drop = () => ws.close(1011, "Connection dropped");
+
+  return { received, send, waitFor, handshake, userSays, assistantSays, callTool, drop };
+}
+
+/**
+ * Listen on a free local port for client connections
+ */
+export async function startFakeRealtimeServer(): Promise<FakeRealtimeServer> {
+  const wss = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await new Promise<void>((resolve) => wss.once("listening", () => resolve()));
+  const { port } = wss.address() as AddressInfo;
+
+  const pending: FakeRealtimeConnection[] = [];
+  const waiting: ((connection: FakeRealtimeConnection) => void)[] = [];
+
+  wss.on("connection", (ws) => {
+    const connection = createConnection(ws);
+    const waiter = waiting.shift();
+    if (waiter) waiter(connection);
+    else pending.push(connection);
+  });
+
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    nextConnection: () =>
+      new Promise((resolve) => {
+        const connection = pending.shift();
+        if (connection) resolve(connection);
+        else waiting.push(resolve);
+      }),
+    close: () =>
+      new Promise((resolve) => {
+        wss.clients.forEach((client) => client.terminate());
+        wss.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * End-to-end test harness
+ *
+ * Runs the real Express app with in-memory storage, points its realtime provider
+ * at a scripted fake (see fake-realtime.ts), and drives conversations through the
+ * client's own useWebSocket hook, so a test exercises the browser, the server and the
+ * database together.
+ */
+
+import { act, renderHook } from "@testing-library/react";
+import { vi } from "vitest";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { ConnectOptions } from "../src/hooks/useWebSocket";
+import type { Message } from "../src/types/messages";
+import type { ConnectionState } from "../src/utils/connection";
+import { startFakeRealtimeServer } from "./fake-realtime";
+import type { FakeRealtimeConnection } from "./fake-realtime";
+
+const SAMPLE_RATE = 24000;
+
+export interface Conversation {
+  sessionId: string;
+  realtime: FakeRealtimeConnection;
+  // Everything the hook passed to its onMessage callback
+  messages: Message[];
+  // The session.update the client opened with
+  sessionUpdate: Message;
+  // The hook's connection state right now
+  connection: () => ConnectionState;
+  // Send as the app would, e.g. microphone audio
+  sendMessage: (message: Message) => void;
+  // Type a message to the assistant
+  sendText: (text: string) => void;
+  // The client's next connection to the realtime API, e.g. after a drop
+  nextConnection: () => Promise<FakeRealtimeConnection>;
+  disconnect: () => void;
+}
+
+export type Harness = Awaited<ReturnType<typeof startHarness>>;
+
+/**
+ * Start the fake provider and the app, then load the client against them
+ */
+export async function startHarness() {
+  const realtime = await startFakeRealtimeServer();
+
+  process.env.STORAGE = "memory";
+  process.env.REALTIME_PROVIDER = "mock";
+  process.env.MOCK_REALTIME_URL = realtime.url;
+  process.env.AUTH_SECRET = "e2e-secret";
+  // Every test starts at least one session, all from the same address
+  process.env.SESSION_RATE_LIMIT = "1000";
+
+  // The server reads its configuration at import time
+  const { app, STORAGE: storage } = await import("../../server/src/app");
+  const { ObjectId } = await import("../../server/src/storage");
+  await storage.prepare();
+
+  const server: Server = await new Promise((resolve) => {
+    const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  // So does the client
+  vi.stubEnv("VITE_API_BASE_URL", `http://127.0.0.1:${port}`);
+  const { useWebSocket } = await import("../src/hooks/useWebSocket");
+  const { apiFetch, setAuthToken } = await import("../src/utils/api");
+
+  let accounts = 0;
+  let userId: InstanceType<typeof ObjectId> | null = null;
+
+  /**
+   * The user signed up last, as stored
+   */
+  const currentUserId = () => {
+    if (!userId) throw new Error("Sign up first");
+    return userId;
+  };
+
+  /**
+   * Sign up a fresh user and use their token for everything after
+   */
+  const signUp = async () => {
+    const response = await apiFetch("/auth/signup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email: `learner${++accounts}@example.com`, password: "password123" }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(`Sign up failed: ${data.error}`);
+    setAuthToken(data.token);
+    userId = new ObjectId(data.user.id);
+  };
+
+  /**
+   * Connect the hook as the app would and play the realtime handshake
+   */
+  const startConversation = async (
+    agent?: string,
+    topic?: string,
+    options?: ConnectOptions,
+  ): Promise<Conversation> => {
+    const messages: Message[] = [];
+    const { result, unmount } = renderHook(() => useWebSocket((message) => messages.push(message)));
+
+    const connection = realtime.nextConnection();
+    await act(() => result.current.connect(SAMPLE_RATE, agent, topic, options));
+    const conversation = await connection;
+    const sessionUpdate = await conversation.handshake();
+
+    const [session] = await storage.sessions.find(currentUserId(), { limit: 1 });
+
+    return {
+      sessionId: session.sessionId,
+      realtime: conversation,
+      messages,
+      sessionUpdate,
+      connection: () => result.current.connection,
+      sendMessage: (message) => result.current.sendMessage(message),
+      sendText: (text) => result.current.sendText(text),
+      nextConnection: realtime.nextConnection,
+      disconnect: () => {
+        act(() => result.current.disconnect());
+        unmount();
+      },
+    };
+  };
+
+  const stop = async () => {
+    vi.unstubAllEnvs();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await realtime.close();
+    await storage.close();
+  };
+
+  return { apiFetch, storage, currentUserId, signUp, startConversation, stop };
+}
@@ -5,28 +5,120 @@
 import { useState, useCallback, useRef, useEffect } from "react";
 import { TopBar } from "./components/TopBar";
 import { ControlPanel } from "./components/ControlPanel";
+import type { TextModeSettings } from "./components/ControlPanel";
 import { DebugConsole } from "./components/DebugConsole";
 import { TranscriptPanel } from "./components/TranscriptPanel";
 import { FlashcardsPage } from "./components/FlashcardsPage";
+import { StatsPage } from "./components/StatsPage";
+import { HistoryPage } from "./components/HistoryPage";
+import { ReviewPage } from "./components/ReviewPage";
+import { LoginPage } from "./components/LoginPage";
 import { useWebSocket } from "./hooks/useWebSocket";
 import { useAudioStream } from "./hooks/useAudioStream";
+import { useWebRTC } from "./hooks/useWebRTC";
 import type { Message, TranscriptEntry } from "./types/messages";
+import { AUTH_EXPIRED_EVENT, apiFetch, getAuthToken, setAuthToken } from "./utils/api";
+import type { AuthUser } from "./utils/api";
+import { createSpokenTextTracker } from "./utils/spoken";
+import {
+  createTurnController,
+  loadTurnSettings,
+  saveTurnSettings,
+  turnDetectionConfig,
+} from "./utils/turns";
+import type { TurnSettings } from "./utils/turns";
+import type { ServedFlashcard } from "./utils/review";
 
-type Page = "main" | "flashcards";
+type Page = "main" | "flashcards" | "stats" | "history" | "review";
+
+// In webrtc mode the peer connection carries the audio, so useAudioStream sits idle
+const USE_WEBRTC = import.meta.env.VITE_REALTIME_MODE === "webrtc";
+// Nothing is recorded in text-only mode; spoken replies come at the usual provider rate
+const TEXT_ONLY_SAMPLE_RATE = 24000;
+
+/**
+ * Explain why a conversation couldn't start, in words for the user
+ */
+function describeStartError(error: unknown): string {
+  if (error instanceof DOMException && error.name === "NotAllowedError") {
+    return "Microphone access was blocked. Allow it in your browser's site settings and press Start again.";
+  }
+  if (error instanceof DOMException && error.name === "NotFoundError") {
+    return "No microphone was found. Connect one and press Start again.";
+  }
+  return `Couldn't start the conversation: ${error instanceof Error ? error.message : String(error)}`;
+}
 
 function App() {
   const [page, setPage] = useState<Page>("main");
+  const [flashcardSearch, setFlashcardSearch] = useState("");
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [checkingAuth, setCheckingAuth] = useState(() => getAuthToken() !== null);
   const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
   const [debugCollapsed, setDebugCollapsed] = useState(false);
-  const currentTranscriptRef = useRef<{ role: "user" | "assistant"; content: string } | null>(null);
+  const [startError, setStartError] = useState<string | null>(null);
+  const currentTranscriptRef = useRef<{
+    role: "user" | "assistant";
+    content: string;
+    itemId?: string;
+  } | null>(null);
   const sendMessageRef = useRef<((message: Message) => void) | null>(null);
+  const [spoken] = useState(createSpokenTextTracker);
+  // Whether the model is generating a response, and the reply item its audio is from
+  const respondingRef = useRef(false);
+  const replyItemRef = useRef<string | null>(null);
+  const [turnSettings, setTurnSettings] = useState(loadTurnSettings);
+  const turnsRef = useRef<ReturnType<typeof createTurnController> | null>(null);
+  // Push to talk: whether the talk button or key is held
+  const [talking, setTalking] = useState(false);
+  const [textMode, setTextMode] = useState<TextModeSettings>({
+    textOnly: false,
+    speakReplies: true,
+  });
+  // The card the review agent is quizzing on, for the review screen
+  const [reviewCard, setReviewCard] = useState<ServedFlashcard | null>(null);
+  // Sample rate the provider sends the model's audio at, once the session says
+  const outputRateRef = useRef<number | undefined>(undefined);
 
-  const { isCapturing, startCapture, stopCapture, stopPlayback, playAudio, audioLevel } =
-    useAudioStream();
+  const audioStream = useAudioStream();
+  const { startCapture, stopCapture, stopPlayback, playAudio, preparePlayback } = audioStream;
+
+  /**
+   * Stop the model's reply when the user talks over it, and tell the session how much
+   * of it they heard so the model doesn't think it said the rest
+   */
+  const interruptReply = useCallback(() => {
+    const position = stopPlayback();
+    const send = sendMessageRef.current;
+    const itemId = replyItemRef.current;
+    if (!send) return;
+
+    const wasResponding = respondingRef.current;
+    if (wasResponding) {
+      send({ type: "response.cancel" });
+      respondingRef.current = false;
+    }
+
+    // Nothing to do if the reply had already played out in full
+    if (itemId && !spoken.isTruncated(itemId)) {
+      const playedMs = Math.floor(position?.itemId === itemId ? position.playedMs : 0);
+      if (wasResponding || playedMs < Math.floor(spoken.audioMs(itemId))) {
+        send({
+          type: "conversation.item.truncate",
+          item_id: itemId,
+          content_index: 0,
+          audio_end_ms: playedMs,
+        });
+      }
+    }
+    replyItemRef.current = null;
+  }, [spoken, stopPlayback]);
 
   // Handle incoming WebSocket messages
   const handleMessage = useCallback(
     (message: Message) => {
+      spoken.observe(message);
+
       // Handle flashcard created
       if (message.type === "flashcard.created") {
         const { question, answer } = message as Message & { question: string; answer: string };
@@ -40,13 +132,35 @@ function App() {
         ]);
       }
 
-      // Handle bot audio
+      if (message.type === "flashcard.served") {
+        setReviewCard(message as Message & ServedFlashcard);
+      }
+
+      if (message.type === "session.updated") {
+        outputRateRef.current = message.session?.audio?.output?.format?.rate;
+      }
+
+      if (message.type === "response.created") {
+        respondingRef.current = true;
+      }
+
+      // Handle bot audio. Over WebRTC it arrives on the call instead, and the server's
+      // peer truncates replies the user talks over, since it knows how much it has sent
       if (message.type === "response.output_audio.delta" && "delta" in message) {
-        playAudio(message.delta as string);
+        replyItemRef.current = message.item_id ?? null;
+        playAudio(message.delta as string, {
+          sampleRate: outputRateRef.current,
+          itemId: message.item_id,
+        });
       }
 
-      // Handle bot transcript
-      if (message.type === "response.output_audio_transcript.delta" && "delta" in message) {
+      // Handle bot transcript, or the reply itself when it's text only
+      if (
+        (message.type === "response.output_audio_transcript.delta" ||
+          message.type === "response.output_text.delta") &&
+        "delta" in message &&
+        !spoken.isTruncated(message.item_id)
+      ) {
         const delta = message.delta as string;
 
         if (currentTranscriptRef.current?.role === "assistant") {
@@ -65,6 +179,7 @@ function App() {
           currentTranscriptRef.current = {
             role: "assistant",
             content: delta,
+            itemId: message.item_id,
           };
           setTranscript((prev) => [
             ...prev,
@@ -72,6 +187,7 @@ function App() {
               timestamp: new Date().toISOString(),
               role: "assistant",
               content: delta,
+              itemId: message.item_id,
             },
           ]);
         }
@@ -80,12 +196,28 @@ function App() {
       // Handle response done (assistant finished speaking)
       if (message.type === "response.done") {
         currentTranscriptRef.current = null;
+        respondingRef.current = false;
+      }
+
+      // The session confirmed the cut; keep only what the user heard of the reply
+      if (message.type === "conversation.item.truncated") {
+        const itemId = message.item_id as string;
+        const content = spoken.spokenText(itemId);
+        if (currentTranscriptRef.current?.itemId === itemId) {
+          currentTranscriptRef.current = null;
+        }
+        setTranscript((prev) =>
+          prev.flatMap((entry) => {
+            if (entry.itemId !== itemId) return [entry];
+            return content ? [{ ...entry, content }] : [];
+          }),
+        );
       }
 
       // Handle user speech started (interruption)
       if (message.type === "input_audio_buffer.speech_started") {
         // Stop any currently playing audio when user interrupts
-        stopPlayback();
+        interruptReply();
 
         currentTranscriptRef.current = {
           role: "user",
@@ -154,20 +286,14 @@ function App() {
         }
       }
     },
-    [playAudio, stopPlayback],
+    [spoken, playAudio, interruptReply],
   );
 
-  const {
-    isConnected,
-    connect,
-    disconnect,
-    sendMessage,
-    debugLogs,
-    clearLogs,
-    provider,
-    pendingAgentSwitch,
-    clearPendingAgentSwitch,
-  } = useWebSocket(handleMessage);
+  const websocket = useWebSocket(handleMessage);
+  const webrtc = useWebRTC(handleMessage);
+  const { connection, disconnect, sendMessage, sendText, debugLogs, clearLogs, provider } =
+    USE_WEBRTC ? webrtc : websocket;
+  const { isCapturing, audioLevel } = USE_WEBRTC ? webrtc : audioStream;
 
   // Store sendMessage in ref to avoid circular dependency
   sendMessageRef.current = sendMessage;
@@ -175,25 +301,47 @@ function App() {
   // Start conversation
   const handleStart = async (agent?: string, topic?: string) => {
     try {
-      // Clear logs and transcript
+      // Clear logs, transcript and any earlier error
+      setStartError(null);
       clearLogs();
       setTranscript([]);
+      setReviewCard(null);
       currentTranscriptRef.current = null;
 
-      // Start audio capture first to get sample rate (returns the detected rate)
-      const detectedSampleRate = await startCapture((base64Audio) => {
-        sendMessage({
-          type: "input_audio_buffer.append",
-          audio: base64Audio,
+      if (USE_WEBRTC) {
+        await webrtc.connect(agent, topic);
+        return;
+      }
+
+      if (textMode.textOnly) {
+        turnsRef.current = null;
+        // Without the microphone, this click is the only gesture that can start the audio
+        if (textMode.speakReplies) preparePlayback();
+        await websocket.connect(TEXT_ONLY_SAMPLE_RATE, agent, topic, {
+          turnDetection: null,
+          textReplies: !textMode.speakReplies,
         });
+        return;
+      }
+
+      // Start audio capture first to get sample rate (returns the detected rate)
+      const detectedSampleRate = await startCapture((base64Audio, level) => {
+        turnsRef.current?.audio(base64Audio, level);
+      });
+      turnsRef.current = createTurnController(turnSettings, detectedSampleRate, {
+        send: sendMessage,
+        onSpeechStart: interruptReply,
       });
 
       // Connect WebSocket with the detected sample rate
       console.log(`Using detected sample rate: ${detectedSampleRate}Hz`);
-      await connect(detectedSampleRate, agent, topic);
+      await websocket.connect(detectedSampleRate, agent, topic, {
+        turnDetection: turnDetectionConfig(turnSettings),
+      });
     } catch (error) {
       console.error("Failed to start:", error);
-      alert(`Failed to start: ${error}`);
+      stopCapture();
+      setStartError(describeStartError(error));
     }
   };
 
@@ -203,22 +351,145 @@ function App() {
     stopPlayback(); // Stop any playing audio
     disconnect();
     currentTranscriptRef.current = null;
+    respondingRef.current = false;
+    replyItemRef.current = null;
+    turnsRef.current = null;
+    setTalking(false);
+  };
+
+  // Send a typed message, cutting off whatever the assistant is saying
+  const handleSendText = (text: string) => {
+    interruptReply();
+    sendText(text);
+    currentTranscriptRef.current = null;
+    setTranscript((prev) => [
+      ...prev,
+      { timestamp: new Date().toISOString(), role: "user", content: text },
+    ]);
+  };
+
+  const handleTurnSettingsChange = (settings: TurnSettings) => {
+    setTurnSettings(settings);
+    saveTurnSettings(settings);
   };
 
-  // Handle agent switch - stop and restart with new agent
+  const startTalking = useCallback(() => {
+    turnsRef.current?.press();
+    setTalking(turnsRef.current?.isTalking() ?? false);
+  }, []);
+
+  const stopTalking = useCallback(() => {
+    turnsRef.current?.release();
+    setTalking(false);
+  }, []);
+
+  // Push to talk with the space bar, unless the user is typing somewhere
   useEffect(() => {
-    if (pendingAgentSwitch) {
-      const { agent, topic } = pendingAgentSwitch;
-      clearPendingAgentSwitch();
-      handleStop();
-      setTimeout(() => {
-        handleStart(agent, topic);
-      }, 1000);
+    if (USE_WEBRTC || turnSettings.mode !== "push_to_talk" || connection.status !== "live") {
+      return;
     }
-  }, [pendingAgentSwitch]);
+
+    const isTyping = (event: KeyboardEvent) =>
+      event.target instanceof HTMLElement &&
+      (event.target.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(event.target.tagName));
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== "Space" || event.repeat || isTyping(event)) return;
+      event.preventDefault();
+      startTalking();
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== "Space") return;
+      stopTalking();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", stopTalking);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", stopTalking);
+      stopTalking();
+    };
+  }, [turnSettings.mode, connection.status, startTalking, stopTalking]);
+
+  // Stop listening once the connection is lost for good
+  useEffect(() => {
+    if (connection.status === "failed") {
+      stopCapture();
+      stopPlayback();
+    }
+  }, [connection.status, stopCapture, stopPlayback]);
+
+  // Restore the logged-in user from a stored token
+  useEffect(() => {
+    if (!getAuthToken()) return;
+    apiFetch("/auth/me")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setUser(data?.user ?? null))
+      .catch(() => setUser(null))
+      .finally(() => setCheckingAuth(false));
+  }, []);
+
+  // Drop back to the login page when the server rejects our token
+  useEffect(() => {
+    const handleExpired = () => setUser(null);
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  const handleLogout = () => {
+    handleStop();
+    setAuthToken(null);
+    setUser(null);
+    setTranscript([]);
+    setPage("main");
+  };
+
+  if (checkingAuth) {
+    return null;
+  }
+
+  if (!user) {
+    return <LoginPage onAuthenticated={setUser} />;
+  }
 
   if (page === "flashcards") {
-    return <FlashcardsPage onBack={() => setPage("main")} />;
+    return <FlashcardsPage onBack={() => setPage("main")} initialSearch={flashcardSearch} />;
+  }
+
+  if (page === "stats") {
+    return <StatsPage onBack={() => setPage("main")} />;
+  }
+
+  if (page === "review") {
+    const lastReply = [...transcript].reverse().find((entry) => entry.role === "assistant");
+    return (
+      <ReviewPage
+        onBack={() => setPage("main")}
+        connection={connection}
+        onStartVoice={() => handleStart("review")}
+        onStopVoice={handleStop}
+        onSendText={handleSendText}
+        voiceCard={reviewCard}
+        assistantLine={lastReply?.content ?? null}
+        voiceError={startError ?? connection.error}
+      />
+    );
+  }
+
+  if (page === "history") {
+    return (
+      <HistoryPage
+        onBack={() => setPage("main")}
+        onOpenCard={(question) => {
+          setFlashcardSearch(question);
+          setPage("flashcards");
+        }}
+      />
+    );
   }
 
   return (
@@ -240,9 +511,12 @@ function App() {
           alignItems: "center",
         }}
       >
-        <TopBar isConnected={isConnected} provider={provider} />
+        <TopBar status={connection.status} provider={provider} />
         <button
-          onClick={() => setPage("flashcards")}
+          onClick={() => {
+            setFlashcardSearch("");
+            setPage("flashcards");
+          }}
           style={{
             padding: "0.5rem 1rem",
             backgroundColor: "#333",
@@ -255,6 +529,63 @@ function App() {
         >
           View Flashcards
         </button>
+        <button
+          onClick={() => setPage("review")}
+          style={{
+            padding: "0.5rem 1rem",
+            backgroundColor: "#333",
+            color: "#fff",
+            border: "none",
+            borderRadius: "4px",
+            cursor: "pointer",
+            marginLeft: "0.5rem",
+          }}
+        >
+          Review
+        </button>
+        <button
+          onClick={() => setPage("stats")}
+          style={{
+            padding: "0.5rem 1rem",
+            backgroundColor: "#333",
+            color: "#fff",
+            border: "none",
+            borderRadius: "4px",
+            cursor: "pointer",
+            marginLeft: "0.5rem",
+          }}
+        >
+          Progress
+        </button>
+        <button
+          onClick={() => setPage("history")}
+          style={{
+            padding: "0.5rem 1rem",
+            backgroundColor: "#333",
+            color: "#fff",
+            border: "none",
+            borderRadius: "4px",
+            cursor: "pointer",
+            marginLeft: "0.5rem",
+          }}
+        >
+          History
+        </button>
+        <button
+          onClick={handleLogout}
+          title={user.email}
+          style={{
+            padding: "0.5rem 1rem",
+            backgroundColor: "#333",
+            color: "#fff",
+            border: "none",
+            borderRadius: "4px",
+            cursor: "pointer",
+            marginLeft: "0.5rem",
+          }}
+        >
+          Log Out
+        </button>
       </div>
 
       <div
@@ -272,17 +603,31 @@ function App() {
         {/* Control Panel - spans first row */}
         <div style={{ gridColumn: "1 / -1" }}>
           <ControlPanel
-            isConnected={isConnected}
+            connection={connection}
             isCapturing={isCapturing}
             onStart={handleStart}
             onStop={handleStop}
             audioLevel={audioLevel}
+            error={startError ?? connection.error}
+            // WebRTC always needs the microphone
+            textMode={USE_WEBRTC ? undefined : textMode}
+            onTextModeChange={setTextMode}
+            // Over WebRTC the server handles turns
+            turnSettings={USE_WEBRTC || textMode.textOnly ? undefined : turnSettings}
+            onTurnSettingsChange={handleTurnSettingsChange}
+            talking={talking}
+            onTalkStart={startTalking}
+            onTalkEnd={stopTalking}
           />
         </div>
 
         {/* Transcript Panel - left column */}
         <div style={{ minHeight: 0, overflow: "hidden" }}>
-          <TranscriptPanel transcript={transcript} />
+          <TranscriptPanel
+            transcript={transcript}
+            onSend={handleSendText}
+            canSend={connection.status === "live"}
+          />
         </div>
 
         {/* Debug Console - right column */}
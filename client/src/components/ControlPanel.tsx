@@ -3,24 +3,92 @@
  */
 
 import React from "react";
+import type { CSSProperties } from "react";
 import { LogoIcon } from "./LogoIcon";
+import { isConnectionActive } from "../utils/connection";
+import type { ConnectionState } from "../utils/connection";
+import { TurnSettingsForm } from "./TurnSettingsForm";
+import type { TurnSettings } from "../utils/turns";
 
 interface ControlPanelProps {
-  isConnected: boolean;
+  connection: ConnectionState;
   isCapturing: boolean;
   onStart: () => void;
   onStop: () => void;
   audioLevel: number;
+  // Why the conversation couldn't start or carry on, if it couldn't
+  error: string | null;
+  // Text only: type instead of speaking, with or without spoken replies. Left out
+  // where a microphone is required.
+  textMode?: TextModeSettings;
+  onTextModeChange?: (settings: TextModeSettings) => void;
+  // How turns are taken; left out when the server takes care of it
+  turnSettings?: TurnSettings;
+  onTurnSettingsChange?: (settings: TurnSettings) => void;
+  // Push to talk: whether the user is holding the talk button or key
+  talking: boolean;
+  onTalkStart: () => void;
+  onTalkEnd: () => void;
+}
+
+export interface TextModeSettings {
+  textOnly: boolean;
+  speakReplies: boolean;
+}
+
+const checkboxLabelStyle: CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: "0.5rem",
+  fontSize: "0.85rem",
+  color: "#aaa",
+};
+
+// The level meter fills up at this microphone level
+const FULL_SCALE_LEVEL = 0.2;
+
+/**
+ * One-line description of where the conversation is at
+ */
+function describeStatus(
+  { status, attempt }: ConnectionState,
+  isCapturing: boolean,
+  textOnly: boolean,
+): string {
+  switch (status) {
+    case "idle":
+      return "Not connected";
+    case "connecting":
+      return "Connecting...";
+    case "configuring":
+      return "Setting up the session...";
+    case "live":
+      if (textOnly) return "Connected - type your messages";
+      return isCapturing ? "Recording" : "Connected (waiting)";
+    case "reconnecting":
+      return `Connection lost, reconnecting (attempt ${attempt})...`;
+    case "failed":
+      return "Disconnected";
+  }
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
-  isConnected,
+  connection,
   isCapturing,
   onStart,
   onStop,
   audioLevel,
+  error,
+  textMode,
+  onTextModeChange,
+  turnSettings,
+  onTurnSettingsChange,
+  talking,
+  onTalkStart,
+  onTalkEnd,
 }) => {
-  const disabled = isConnected && isCapturing;
+  const active = isConnectionActive(connection.status);
+  const pushToTalk = turnSettings?.mode === "push_to_talk" && connection.status === "live";
 
   return (
     <div
@@ -37,16 +105,16 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
       <div style={{ display: "flex", gap: "1rem", marginBottom: "1rem" }}>
         <button
           onClick={onStart}
-          disabled={disabled}
+          disabled={active}
           style={{
             backgroundColor: "#000",
-            color: disabled ? "#666" : "#00ff00",
-            border: `2px solid ${disabled ? "#666" : "#00ff00"}`,
+            color: active ? "#666" : "#00ff00",
+            border: `2px solid ${active ? "#666" : "#00ff00"}`,
             borderRadius: "8px",
             padding: "0.75rem 2rem",
             paddingLeft: "1.5rem",
             fontSize: "1rem",
-            cursor: disabled ? "not-allowed" : "pointer",
+            cursor: active ? "not-allowed" : "pointer",
             fontWeight: "bold",
             display: "inline-flex",
             alignItems: "center",
@@ -61,15 +129,15 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
 
         <button
           onClick={onStop}
-          disabled={!isConnected}
+          disabled={!active}
           style={{
             backgroundColor: "#000",
-            color: !isConnected ? "#666" : "#ff0000",
-            border: `2px solid ${!isConnected ? "#666" : "#ff0000"}`,
+            color: !active ? "#666" : "#ff0000",
+            border: `2px solid ${!active ? "#666" : "#ff0000"}`,
             padding: "0.75rem 2rem",
             borderRadius: "8px",
             fontSize: "1rem",
-            cursor: !isConnected ? "not-allowed" : "pointer",
+            cursor: !active ? "not-allowed" : "pointer",
             fontWeight: "bold",
           }}
         >
@@ -77,12 +145,83 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         </button>
       </div>
 
+      {textMode && onTextModeChange && (
+        <div style={{ display: "flex", gap: "1rem", marginBottom: "0.75rem" }}>
+          <label style={checkboxLabelStyle}>
+            <input
+              type="checkbox"
+              checked={textMode.textOnly}
+              disabled={active}
+              onChange={(e) => onTextModeChange({ ...textMode, textOnly: e.target.checked })}
+            />
+            Text only (no microphone)
+          </label>
+          {textMode.textOnly && (
+            <label style={checkboxLabelStyle}>
+              <input
+                type="checkbox"
+                checked={textMode.speakReplies}
+                disabled={active}
+                onChange={(e) => onTextModeChange({ ...textMode, speakReplies: e.target.checked })}
+              />
+              Speak replies
+            </label>
+          )}
+        </div>
+      )}
+
+      {turnSettings && onTurnSettingsChange && (
+        <TurnSettingsForm
+          settings={turnSettings}
+          onChange={onTurnSettingsChange}
+          disabled={active}
+        />
+      )}
+
+      {pushToTalk && (
+        <div style={{ marginBottom: "1rem" }}>
+          <button
+            onPointerDown={onTalkStart}
+            onPointerUp={onTalkEnd}
+            onPointerLeave={onTalkEnd}
+            onPointerCancel={onTalkEnd}
+            style={{
+              width: "100%",
+              backgroundColor: talking ? "#00ff00" : "#000",
+              color: talking ? "#000" : "#00ff00",
+              border: "2px solid #00ff00",
+              borderRadius: "8px",
+              padding: "0.75rem",
+              fontSize: "1rem",
+              fontWeight: "bold",
+              cursor: "pointer",
+              userSelect: "none",
+              touchAction: "none",
+            }}
+          >
+            {talking ? "LISTENING..." : "HOLD TO TALK"}
+          </button>
+          <div style={{ marginTop: "0.25rem", fontSize: "0.8rem", color: "#888" }}>
+            Or hold the space bar
+          </div>
+        </div>
+      )}
+
       <div style={{ marginTop: "1rem" }}>
         <div style={{ marginBottom: "0.5rem", fontSize: "0.9rem" }}>
           <strong>Status:</strong>{" "}
-          {isConnected ? (isCapturing ? "Recording" : "Connected (waiting)") : "Not connected"}
+          {describeStatus(connection, isCapturing, textMode?.textOnly ?? false)}
         </div>
 
+        {error && (
+          <div
+            role="alert"
+            style={{ marginBottom: "0.5rem", fontSize: "0.9rem", color: "#ff6b6b" }}
+          >
+            {error}
+          </div>
+        )}
+
         {isCapturing && (
           <div style={{ marginTop: "1rem" }}>
             <div style={{ marginBottom: "0.5rem", fontSize: "0.9rem" }}>
@@ -90,6 +229,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             </div>
             <div
               style={{
+                position: "relative",
                 width: "100%",
                 height: "20px",
                 border: "1px solid #fff",
@@ -98,12 +238,26 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             >
               <div
                 style={{
-                  width: `${Math.min(100, audioLevel * 500)}%`,
+                  width: `${Math.min(100, (audioLevel / FULL_SCALE_LEVEL) * 100)}%`,
                   height: "100%",
                   backgroundColor: "#00ff00",
                   transition: "width 0.1s",
                 }}
               />
+              {turnSettings?.mode === "client_vad" && (
+                // Where this device starts to count the sound as speech
+                <div
+                  title="Speech level"
+                  style={{
+                    position: "absolute",
+                    top: 0,
+                    bottom: 0,
+                    left: `${Math.min(100, (turnSettings.clientThreshold / FULL_SCALE_LEVEL) * 100)}%`,
+                    width: "2px",
+                    backgroundColor: "#ffaa00",
+                  }}
+                />
+              )}
             </div>
           </div>
         )}
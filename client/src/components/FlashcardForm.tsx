@@ -0,0 +1,130 @@
+/**
+ * Form for creating or editing a flashcard's question, answer and topic
+ */
+
+import { useState } from "react";
+import type { CSSProperties, FormEvent } from "react";
+
+export interface FlashcardFields {
+  question: string;
+  answer: string;
+  topic: string;
+}
+
+interface FlashcardFormProps {
+  initial?: FlashcardFields;
+  topics: string[];
+  submitLabel: string;
+  onSubmit: (fields: FlashcardFields) => Promise<void>;
+  onCancel: () => void;
+}
+
+const fieldStyle: CSSProperties = {
+  padding: "0.5rem",
+  backgroundColor: "#000",
+  color: "#fff",
+  border: "1px solid #525252ff",
+  borderRadius: "4px",
+  fontSize: "0.95rem",
+  fontFamily: "inherit",
+};
+
+const buttonStyle: CSSProperties = {
+  padding: "0.5rem 0.75rem",
+  color: "#fff",
+  border: "none",
+  borderRadius: "4px",
+  cursor: "pointer",
+};
+
+export function FlashcardForm({
+  initial,
+  topics,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: FlashcardFormProps) {
+  const [fields, setFields] = useState<FlashcardFields>(
+    initial ?? { question: "", answer: "", topic: "" },
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (key: keyof FlashcardFields, value: string) =>
+    setFields((prev) => ({ ...prev, [key]: value }));
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSubmit({
+        question: fields.question.trim(),
+        answer: fields.answer.trim(),
+        topic: fields.topic.trim(),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{ flex: 1, display: "flex", flexDirection: "column", gap: "0.5rem" }}
+    >
+      <input
+        list="flashcard-topics"
+        placeholder="Topic"
+        value={fields.topic}
+        onChange={(e) => update("topic", e.target.value)}
+        required
+        style={fieldStyle}
+      />
+      <datalist id="flashcard-topics">
+        {topics.map((topic) => (
+          <option key={topic} value={topic} />
+        ))}
+      </datalist>
+      <textarea
+        placeholder="Question"
+        value={fields.question}
+        onChange={(e) => update("question", e.target.value)}
+        required
+        rows={2}
+        style={fieldStyle}
+      />
+      <textarea
+        placeholder="Answer"
+        value={fields.answer}
+        onChange={(e) => update("answer", e.target.value)}
+        required
+        rows={3}
+        style={fieldStyle}
+      />
+
+      {error && <div style={{ color: "#f66" }}>Error: {error}</div>}
+
+      <div style={{ display: "flex", gap: "0.5rem" }}>
+        <button
+          type="submit"
+          disabled={saving}
+          style={{ ...buttonStyle, backgroundColor: saving ? "#666" : "#2a7" }}
+        >
+          {saving ? "..." : submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          style={{ ...buttonStyle, backgroundColor: "#333" }}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -2,9 +2,11 @@
  * Page to view and manage all flashcards
  */
 
-import { useState, useEffect, useCallback } from "react";
-
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import type { CSSProperties, ChangeEvent } from "react";
+import { apiFetch, readApiError } from "../utils/api";
+import { FlashcardForm } from "./FlashcardForm";
+import type { FlashcardFields } from "./FlashcardForm";
 
 interface Flashcard {
   _id: string;
@@ -12,26 +14,162 @@ interface Flashcard {
   answer: string;
   topic: string;
   createdAt: string;
+  dueAt?: string;
+  gradeCounts?: Partial<Record<"again" | "hard" | "good" | "easy", number>>;
+}
+
+type SortOption = "newest" | "oldest" | "due" | "accuracy-asc" | "accuracy-desc";
+
+const SORT_LABELS: Record<SortOption, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  due: "Due soonest",
+  "accuracy-asc": "Lowest accuracy",
+  "accuracy-desc": "Highest accuracy",
+};
+
+type DeckFormat = "json" | "csv" | "markdown" | "anki";
+
+/**
+ * Deck file formats the server can import and export. Only JSON, CSV and Markdown
+ * carry review history; Anki's plain-text notes hold just the cards.
+ */
+const DECK_FORMATS: Record<DeckFormat, { label: string; extension: string; accept: string }> = {
+  json: { label: "JSON", extension: "json", accept: ".json,application/json" },
+  csv: { label: "CSV", extension: "csv", accept: ".csv,text/csv" },
+  markdown: { label: "Markdown", extension: "md", accept: ".md,.markdown,text/markdown" },
+  anki: { label: "Anki text", extension: "txt", accept: ".txt,.tsv,text/plain" },
+};
+
+interface ImportItem {
+  action: "create" | "update" | "skip";
+  topic: string;
+  question: string;
+  reason?: string;
+  newReviews: number;
+}
+
+interface ImportResponse {
+  dryRun: boolean;
+  summary: { created: number; updated: number; skipped: number };
+  items: ImportItem[];
+  errors: string[];
+}
+
+const PREVIEW_ITEMS = 10;
+
+/**
+ * Describe a dry-run import so the user can decide whether to go ahead
+ */
+function describeImportPreview({ summary, items, errors }: ImportResponse): string {
+  const lines = [
+    `This import will create ${summary.created}, update ${summary.updated} and skip ${summary.skipped} flashcards.`,
+  ];
+  const changes = items.filter((item) => item.action !== "skip");
+  if (changes.length > 0) {
+    lines.push("");
+    for (const item of changes.slice(0, PREVIEW_ITEMS)) {
+      const detail = item.action === "update" ? ` (${item.reason})` : "";
+      lines.push(
+        `${item.action === "create" ? "+" : "~"} [${item.topic}] ${item.question.slice(0, 60)}${detail}`,
+      );
+    }
+    if (changes.length > PREVIEW_ITEMS) lines.push(`...and ${changes.length - PREVIEW_ITEMS} more`);
+  }
+  if (errors.length > 0) lines.push("", `${errors.length} entries could not be read.`);
+  return lines.join("\n");
 }
 
 interface FlashcardsPageProps {
   onBack: () => void;
+  initialSearch?: string;
+}
+
+const controlStyle: CSSProperties = {
+  padding: "0.5rem",
+  backgroundColor: "#1a1a1a",
+  color: "#fff",
+  border: "1px solid #525252ff",
+  borderRadius: "4px",
+  fontSize: "0.9rem",
+};
+
+const smallButtonStyle: CSSProperties = {
+  padding: "0.5rem 0.75rem",
+  color: "#fff",
+  border: "none",
+  borderRadius: "4px",
+  cursor: "pointer",
+  flexShrink: 0,
+};
+
+/**
+ * Share of reviews that were recalled, or null if the card was never reviewed
+ */
+function accuracyOf(card: Flashcard): number | null {
+  const { again = 0, hard = 0, good = 0, easy = 0 } = card.gradeCounts ?? {};
+  const total = again + hard + good + easy;
+  return total === 0 ? null : (hard + good + easy) / total;
+}
+
+function formatDue(dueAt?: string): string {
+  if (!dueAt) return "Due now";
+  const days = Math.ceil((new Date(dueAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  if (days <= 0) return "Due now";
+  return days === 1 ? "Due tomorrow" : `Due in ${days} days`;
+}
+
+function compareCards(a: Flashcard, b: Flashcard, sort: SortOption): number {
+  switch (sort) {
+    case "newest":
+      return b.createdAt.localeCompare(a.createdAt);
+    case "oldest":
+      return a.createdAt.localeCompare(b.createdAt);
+    case "due":
+      return (a.dueAt ?? a.createdAt).localeCompare(b.dueAt ?? b.createdAt);
+    case "accuracy-asc":
+    case "accuracy-desc": {
+      // Unreviewed cards always sort last
+      const accA = accuracyOf(a);
+      const accB = accuracyOf(b);
+      if (accA === null || accB === null) return accA === accB ? 0 : accA === null ? 1 : -1;
+      return sort === "accuracy-asc" ? accA - accB : accB - accA;
+    }
+  }
 }
 
-export function FlashcardsPage({ onBack }: FlashcardsPageProps) {
+export function FlashcardsPage({ onBack, initialSearch = "" }: FlashcardsPageProps) {
   const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [search, setSearch] = useState(initialSearch);
+  const [topicFilter, setTopicFilter] = useState("");
+  const [sort, setSort] = useState<SortOption>("newest");
+  const [groupByTopic, setGroupByTopic] = useState(false);
+  const [transferring, setTransferring] = useState(false);
+  const [deckFormat, setDeckFormat] = useState<DeckFormat>("json");
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const fetchFlashcards = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await fetch(`${API_BASE_URL}/flashcards`);
-      if (!response.ok) throw new Error("Failed to fetch flashcards");
-      const data = await response.json();
-      setFlashcards(data.flashcards);
+      // Follow the paginated list until every card is loaded
+      const all: Flashcard[] = [];
+      let cursor: string | null = null;
+      do {
+        const response = await apiFetch(
+          `/flashcards?limit=200${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""}`,
+        );
+        if (!response.ok) throw new Error("Failed to fetch flashcards");
+        const data = await response.json();
+        all.push(...data.flashcards);
+        cursor = data.nextCursor;
+      } while (cursor);
+      setFlashcards(all);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unknown error");
     } finally {
@@ -43,12 +181,37 @@ export function FlashcardsPage({ onBack }: FlashcardsPageProps) {
     fetchFlashcards();
   }, [fetchFlashcards]);
 
+  const topics = useMemo(
+    () => [...new Set(flashcards.map((f) => f.topic))].sort((a, b) => a.localeCompare(b)),
+    [flashcards],
+  );
+
+  const visibleCards = useMemo(() => {
+    const needle = search.trim().toLowerCase();
+    return flashcards
+      .filter((card) => !topicFilter || card.topic === topicFilter)
+      .filter(
+        (card) =>
+          !needle ||
+          card.question.toLowerCase().includes(needle) ||
+          card.answer.toLowerCase().includes(needle),
+      )
+      .sort((a, b) => compareCards(a, b, sort));
+  }, [flashcards, search, topicFilter, sort]);
+
+  const groups = useMemo(() => {
+    if (!groupByTopic) return [{ topic: null, cards: visibleCards }];
+    return topics
+      .map((topic) => ({ topic, cards: visibleCards.filter((c) => c.topic === topic) }))
+      .filter((group) => group.cards.length > 0);
+  }, [groupByTopic, topics, visibleCards]);
+
   const handleDelete = async (id: string) => {
     if (!confirm("Are you sure you want to delete this flashcard?")) return;
 
     try {
       setDeleting(id);
-      const response = await fetch(`${API_BASE_URL}/flashcards/${id}`, {
+      const response = await apiFetch(`/flashcards/${id}`, {
         method: "DELETE",
       });
       if (!response.ok) throw new Error("Failed to delete flashcard");
@@ -60,6 +223,158 @@ export function FlashcardsPage({ onBack }: FlashcardsPageProps) {
     }
   };
 
+  const handleCreate = async (fields: FlashcardFields) => {
+    const response = await apiFetch("/flashcards", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(fields),
+    });
+    if (!response.ok) throw new Error(await readApiError(response, "Failed to create flashcard"));
+    const data = await response.json();
+    setFlashcards((prev) => [data.flashcard, ...prev]);
+    setCreating(false);
+  };
+
+  const handleUpdate = async (id: string, fields: FlashcardFields) => {
+    const response = await apiFetch(`/flashcards/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(fields),
+    });
+    if (!response.ok) throw new Error(await readApiError(response, "Failed to update flashcard"));
+    const data = await response.json();
+    setFlashcards((prev) => prev.map((f) => (f._id === id ? data.flashcard : f)));
+    setEditing(null);
+  };
+
+  // Download the (optionally topic-filtered) deck in the selected format
+  const handleExport = async () => {
+    try {
+      setTransferring(true);
+      const params = new URLSearchParams({ format: deckFormat });
+      if (topicFilter) params.set("topic", topicFilter);
+      const response = await apiFetch(`/flashcards/export?${params}`);
+      if (!response.ok) throw new Error(await readApiError(response, "Failed to export"));
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `groklearn-${topicFilter || "all"}.${DECK_FORMATS[deckFormat].extension}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to export");
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  // Preview the import with a dry run, then apply it once the user confirms
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const upload = async (dryRun: boolean): Promise<ImportResponse> => {
+      const params = new URLSearchParams({ format: deckFormat, dryRun: String(dryRun) });
+      const response = await apiFetch(`/flashcards/import?${params}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: await file.text(),
+      });
+      if (!response.ok) throw new Error(await readApiError(response, "Failed to import"));
+      return response.json();
+    };
+
+    try {
+      setTransferring(true);
+      const preview = await upload(true);
+      const { created, updated } = preview.summary;
+
+      if (created + updated === 0) {
+        alert(`Nothing to import.\n\n${describeImportPreview(preview)}`);
+        return;
+      }
+      if (!confirm(`${describeImportPreview(preview)}\n\nImport now?`)) return;
+
+      const result = await upload(false);
+      alert(
+        `Imported: ${result.summary.created} created, ${result.summary.updated} updated, ${result.summary.skipped} skipped.`,
+      );
+      await fetchFlashcards();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to import");
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const renderCard = (card: Flashcard) => {
+    const accuracy = accuracyOf(card);
+
+    return (
+      <div
+        key={card._id}
+        style={{
+          backgroundColor: "#1a1a1a",
+          borderRadius: "8px",
+          padding: "1rem",
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "flex-start",
+          gap: "1rem",
+        }}
+      >
+        {editing === card._id ? (
+          <FlashcardForm
+            initial={{ question: card.question, answer: card.answer, topic: card.topic }}
+            topics={topics}
+            submitLabel="Save"
+            onSubmit={(fields) => handleUpdate(card._id, fields)}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <>
+            <div style={{ flex: 1 }}>
+              <div
+                style={{
+                  color: "#888",
+                  fontSize: "0.75rem",
+                  marginBottom: "0.25rem",
+                  display: "flex",
+                  gap: "1rem",
+                }}
+              >
+                <span>{card.topic}</span>
+                <span>{formatDue(card.dueAt)}</span>
+                {accuracy !== null && <span>{Math.round(accuracy * 100)}% recalled</span>}
+              </div>
+              <div style={{ fontWeight: "bold", marginBottom: "0.5rem" }}>{card.question}</div>
+              <div style={{ color: "#aaa" }}>{card.answer}</div>
+            </div>
+            <button
+              onClick={() => setEditing(card._id)}
+              style={{ ...smallButtonStyle, backgroundColor: "#333" }}
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => handleDelete(card._id)}
+              disabled={deleting === card._id}
+              style={{
+                ...smallButtonStyle,
+                backgroundColor: deleting === card._id ? "#666" : "#c44",
+                cursor: deleting === card._id ? "not-allowed" : "pointer",
+              }}
+            >
+              {deleting === card._id ? "..." : "Delete"}
+            </button>
+          </>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div
       style={{
@@ -85,8 +400,110 @@ export function FlashcardsPage({ onBack }: FlashcardsPageProps) {
         </button>
         <h1 style={{ margin: 0 }}>Flashcards</h1>
         <span style={{ color: "#888" }}>({flashcards.length} total)</span>
+        <select
+          value={deckFormat}
+          onChange={(e) => setDeckFormat(e.target.value as DeckFormat)}
+          title="Deck file format for import and export"
+          style={{ ...controlStyle, marginLeft: "auto" }}
+        >
+          {(Object.keys(DECK_FORMATS) as DeckFormat[]).map((format) => (
+            <option key={format} value={format}>
+              {DECK_FORMATS[format].label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={transferring || flashcards.length === 0}
+          title="Download the deck in the selected format (respects the topic filter)"
+          style={{ ...smallButtonStyle, backgroundColor: "#333" }}
+        >
+          Export
+        </button>
+        <button
+          onClick={() => importInputRef.current?.click()}
+          disabled={transferring}
+          title="Import a deck file in the selected format, with a preview before saving"
+          style={{ ...smallButtonStyle, backgroundColor: "#333" }}
+        >
+          Import
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={DECK_FORMATS[deckFormat].accept}
+          onChange={handleImport}
+          style={{ display: "none" }}
+        />
+        <button
+          onClick={() => setCreating(true)}
+          disabled={creating}
+          style={{ ...smallButtonStyle, backgroundColor: creating ? "#666" : "#2a7" }}
+        >
+          + New Card
+        </button>
       </div>
 
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem", marginBottom: "1rem" }}>
+        <input
+          type="search"
+          placeholder="Search questions and answers..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          style={{ ...controlStyle, flex: 1, minWidth: "200px" }}
+        />
+        <select
+          value={topicFilter}
+          onChange={(e) => setTopicFilter(e.target.value)}
+          style={controlStyle}
+        >
+          <option value="">All topics</option>
+          {topics.map((topic) => (
+            <option key={topic} value={topic}>
+              {topic}
+            </option>
+          ))}
+        </select>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as SortOption)}
+          style={controlStyle}
+        >
+          {(Object.keys(SORT_LABELS) as SortOption[]).map((option) => (
+            <option key={option} value={option}>
+              {SORT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <label style={{ display: "flex", alignItems: "center", gap: "0.5rem", color: "#aaa" }}>
+          <input
+            type="checkbox"
+            checked={groupByTopic}
+            onChange={(e) => setGroupByTopic(e.target.checked)}
+          />
+          Group by topic
+        </label>
+      </div>
+
+      {creating && (
+        <div
+          style={{
+            backgroundColor: "#1a1a1a",
+            borderRadius: "8px",
+            padding: "1rem",
+            marginBottom: "1rem",
+          }}
+        >
+          <FlashcardForm
+            initial={{ question: "", answer: "", topic: topicFilter }}
+            topics={topics}
+            submitLabel="Create"
+            onSubmit={handleCreate}
+            onCancel={() => setCreating(false)}
+          />
+        </div>
+      )}
+
       {loading && <p>Loading...</p>}
       {error && <p style={{ color: "#f66" }}>Error: {error}</p>}
 
@@ -94,45 +511,22 @@ export function FlashcardsPage({ onBack }: FlashcardsPageProps) {
         <p style={{ color: "#888" }}>No flashcards yet. Start learning to create some!</p>
       )}
 
-      <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
-        {flashcards.map((card) => (
-          <div
-            key={card._id}
-            style={{
-              backgroundColor: "#1a1a1a",
-              borderRadius: "8px",
-              padding: "1rem",
-              display: "flex",
-              justifyContent: "space-between",
-              alignItems: "flex-start",
-              gap: "1rem",
-            }}
-          >
-            <div style={{ flex: 1 }}>
-              <div style={{ color: "#888", fontSize: "0.75rem", marginBottom: "0.25rem" }}>
-                {card.topic}
-              </div>
-              <div style={{ fontWeight: "bold", marginBottom: "0.5rem" }}>{card.question}</div>
-              <div style={{ color: "#aaa" }}>{card.answer}</div>
-            </div>
-            <button
-              onClick={() => handleDelete(card._id)}
-              disabled={deleting === card._id}
-              style={{
-                padding: "0.5rem 0.75rem",
-                backgroundColor: deleting === card._id ? "#666" : "#c44",
-                color: "#fff",
-                border: "none",
-                borderRadius: "4px",
-                cursor: deleting === card._id ? "not-allowed" : "pointer",
-                flexShrink: 0,
-              }}
-            >
-              {deleting === card._id ? "..." : "Delete"}
-            </button>
+      {!loading && !error && flashcards.length > 0 && visibleCards.length === 0 && (
+        <p style={{ color: "#888" }}>No flashcards match your filters.</p>
+      )}
+
+      {groups.map((group) => (
+        <div key={group.topic ?? "all"} style={{ marginBottom: "1.5rem" }}>
+          {group.topic !== null && (
+            <h2 style={{ fontSize: "1.1rem", color: "#ccc", margin: "0 0 0.75rem 0" }}>
+              {group.topic} <span style={{ color: "#666" }}>({group.cards.length})</span>
+            </h2>
+          )}
+          <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+            {group.cards.map(renderCard)}
           </div>
-        ))}
-      </div>
+        </div>
+      ))}
     </div>
   );
 }
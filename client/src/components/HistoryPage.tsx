@@ -0,0 +1,338 @@
+/**
+ * Page to browse past sessions and their stored transcripts
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import type { CSSProperties } from "react";
+import { apiFetch, readApiError } from "../utils/api";
+
+interface SessionSummary {
+  sessionId: string;
+  agent: string;
+  topic?: string;
+  createdAt: string;
+  turns: number;
+  flashcardsCreated: number;
+  preview?: string;
+}
+
+interface StoredEntry {
+  _id: string;
+  role: "user" | "assistant" | "tool" | "flashcard";
+  content: string;
+  timestamp: string;
+  toolName?: string;
+  args?: Record<string, unknown>;
+  result?: unknown;
+  flashcardId?: string;
+}
+
+interface SessionFlashcard {
+  _id: string;
+  question: string;
+  answer: string;
+  topic: string;
+}
+
+interface SessionDetail {
+  session: { sessionId: string; agent: string; topic?: string; createdAt: string };
+  entries: StoredEntry[];
+  flashcards: SessionFlashcard[];
+}
+
+interface HistoryPageProps {
+  onBack: () => void;
+  onOpenCard: (question: string) => void;
+}
+
+// Longest pause between entries when replaying, however long the real gap was
+const MAX_REPLAY_GAP_MS = 3000;
+const MIN_REPLAY_GAP_MS = 400;
+
+const ROLE_LABELS: Record<StoredEntry["role"], { label: string; color: string }> = {
+  user: { label: "USER", color: "#00ff00" },
+  assistant: { label: "ASSISTANT", color: "#00ffff" },
+  tool: { label: "TOOL", color: "#888" },
+  flashcard: { label: "FLASHCARD CREATED", color: "#ffff00" },
+};
+
+const buttonStyle: CSSProperties = {
+  padding: "0.5rem 1rem",
+  backgroundColor: "#333",
+  color: "#fff",
+  border: "none",
+  borderRadius: "4px",
+  cursor: "pointer",
+};
+
+function formatDateTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString("en-US", {
+    hour12: false,
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+export function HistoryPage({ onBack, onOpenCard }: HistoryPageProps) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<SessionDetail | null>(null);
+  const [loadingDetail, setLoadingDetail] = useState(false);
+  const [replayIndex, setReplayIndex] = useState<number | null>(null);
+  const cardRefs = useRef(new Map<string, HTMLDivElement>());
+
+  const fetchSessions = useCallback(async (cursor?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams({ limit: "20" });
+      if (cursor) params.set("cursor", cursor);
+      const response = await apiFetch(`/sessions?${params}`);
+      if (!response.ok) throw new Error(await readApiError(response, "Failed to fetch sessions"));
+
+      const data = await response.json();
+      setSessions((prev) => (cursor ? [...prev, ...data.sessions] : data.sessions));
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const openSession = async (sessionId: string) => {
+    try {
+      setLoadingDetail(true);
+      setReplayIndex(null);
+      const response = await apiFetch(`/sessions/${encodeURIComponent(sessionId)}`);
+      if (!response.ok) throw new Error(await readApiError(response, "Failed to load session"));
+      setSelected(await response.json());
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to load session");
+    } finally {
+      setLoadingDetail(false);
+    }
+  };
+
+  const conversation = useMemo(
+    () => selected?.entries.filter((e) => e.role !== "tool") ?? [],
+    [selected],
+  );
+
+  // Reveal entries one by one, keeping the conversation's own pacing within limits
+  useEffect(() => {
+    if (replayIndex === null) return;
+    if (replayIndex >= conversation.length - 1) {
+      setReplayIndex(null);
+      return;
+    }
+
+    const gap =
+      new Date(conversation[replayIndex + 1].timestamp).getTime() -
+      new Date(conversation[replayIndex].timestamp).getTime();
+    const timer = setTimeout(
+      () => setReplayIndex(replayIndex + 1),
+      Math.min(MAX_REPLAY_GAP_MS, Math.max(MIN_REPLAY_GAP_MS, gap)),
+    );
+    return () => clearTimeout(timer);
+  }, [replayIndex, conversation]);
+
+  const jumpToCard = (flashcardId?: string) => {
+    const card = flashcardId ? cardRefs.current.get(flashcardId) : undefined;
+    card?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  const visibleEntries =
+    replayIndex === null ? conversation : conversation.slice(0, replayIndex + 1);
+
+  return (
+    <div
+      style={{
+        backgroundColor: "#000",
+        color: "#fff",
+        minHeight: "100vh",
+        padding: "1rem",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: "1rem", marginBottom: "1rem" }}>
+        <button onClick={onBack} style={buttonStyle}>
+          ← Back
+        </button>
+        <h1 style={{ margin: 0 }}>History</h1>
+      </div>
+
+      {error && <p style={{ color: "#f66" }}>Error: {error}</p>}
+
+      <div style={{ display: "grid", gridTemplateColumns: "minmax(240px, 1fr) 3fr", gap: "1rem" }}>
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+          {!loading && sessions.length === 0 && (
+            <p style={{ color: "#888" }}>No past sessions yet.</p>
+          )}
+          {sessions.map((s) => (
+            <button
+              key={s.sessionId}
+              onClick={() => openSession(s.sessionId)}
+              style={{
+                textAlign: "left",
+                padding: "0.75rem",
+                backgroundColor:
+                  selected?.session.sessionId === s.sessionId ? "#2a2a2a" : "#1a1a1a",
+                color: "#fff",
+                border: "1px solid #333",
+                borderRadius: "8px",
+                cursor: "pointer",
+              }}
+            >
+              <div style={{ fontWeight: "bold" }}>{formatDateTime(s.createdAt)}</div>
+              <div style={{ color: "#888", fontSize: "0.85rem", marginTop: "0.25rem" }}>
+                {s.agent}
+                {s.topic ? ` · ${s.topic}` : ""} · {s.turns} turns · {s.flashcardsCreated} cards
+              </div>
+              {s.preview && (
+                <div style={{ color: "#aaa", fontSize: "0.85rem", marginTop: "0.25rem" }}>
+                  {s.preview}
+                </div>
+              )}
+            </button>
+          ))}
+          {loading && <p>Loading...</p>}
+          {!loading && nextCursor && (
+            <button onClick={() => fetchSessions(nextCursor)} style={buttonStyle}>
+              Load more
+            </button>
+          )}
+        </div>
+
+        <div>
+          {loadingDetail && <p>Loading...</p>}
+          {!loadingDetail && !selected && (
+            <p style={{ color: "#888" }}>Select a session to see what was said.</p>
+          )}
+          {!loadingDetail && selected && (
+            <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+              <div style={{ display: "flex", alignItems: "center", gap: "1rem" }}>
+                <h2 style={{ margin: 0, fontSize: "1.2rem" }}>
+                  {formatDateTime(selected.session.createdAt)} · {selected.session.agent}
+                  {selected.session.topic ? ` · ${selected.session.topic}` : ""}
+                </h2>
+                <button
+                  onClick={() => setReplayIndex(replayIndex === null ? 0 : null)}
+                  disabled={conversation.length === 0}
+                  style={{ ...buttonStyle, marginLeft: "auto" }}
+                >
+                  {replayIndex === null ? "▶ Replay" : "■ Stop"}
+                </button>
+              </div>
+
+              <div
+                style={{
+                  backgroundColor: "#141414ff",
+                  border: "2px solid #4f4f4fff",
+                  borderRadius: "8px",
+                  padding: "1rem",
+                }}
+              >
+                {conversation.length === 0 && (
+                  <div style={{ color: "#666", fontStyle: "italic" }}>
+                    Nothing was recorded for this session.
+                  </div>
+                )}
+                {visibleEntries.map((entry, index) => (
+                  <div
+                    key={entry._id}
+                    style={{
+                      marginBottom: "1rem",
+                      paddingBottom: "1rem",
+                      borderBottom: index < visibleEntries.length - 1 ? "1px solid #333" : "none",
+                    }}
+                  >
+                    <div
+                      style={{
+                        display: "flex",
+                        justifyContent: "space-between",
+                        marginBottom: "0.5rem",
+                        fontSize: "0.85rem",
+                      }}
+                    >
+                      <span style={{ fontWeight: "bold", color: ROLE_LABELS[entry.role].color }}>
+                        {ROLE_LABELS[entry.role].label}
+                      </span>
+                      <span style={{ color: "#666" }}>{formatTime(entry.timestamp)}</span>
+                    </div>
+                    <div style={{ lineHeight: "1.5", whiteSpace: "pre-wrap" }}>{entry.content}</div>
+                    {entry.role === "flashcard" && (
+                      <button
+                        onClick={() => jumpToCard(entry.flashcardId)}
+                        style={{
+                          ...buttonStyle,
+                          padding: "0.25rem 0.5rem",
+                          marginTop: "0.5rem",
+                          fontSize: "0.8rem",
+                        }}
+                      >
+                        Jump to card
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <h2 style={{ fontSize: "1.1rem", color: "#ccc", margin: "0 0 0.75rem 0" }}>
+                  Cards created ({selected.flashcards.length})
+                </h2>
+                {selected.flashcards.length === 0 && (
+                  <p style={{ color: "#888" }}>No flashcards were created in this session.</p>
+                )}
+                <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+                  {selected.flashcards.map((card) => (
+                    <div
+                      key={card._id}
+                      ref={(el) => {
+                        if (el) cardRefs.current.set(card._id, el);
+                        else cardRefs.current.delete(card._id);
+                      }}
+                      style={{
+                        backgroundColor: "#1a1a1a",
+                        borderRadius: "8px",
+                        padding: "1rem",
+                        display: "flex",
+                        gap: "1rem",
+                        alignItems: "flex-start",
+                      }}
+                    >
+                      <div style={{ flex: 1 }}>
+                        <div style={{ color: "#888", fontSize: "0.85rem" }}>{card.topic}</div>
+                        <div style={{ fontWeight: "bold", margin: "0.25rem 0" }}>
+                          Q: {card.question}
+                        </div>
+                        <div style={{ color: "#ccc" }}>A: {card.answer}</div>
+                      </div>
+                      <button onClick={() => onOpenCard(card.question)} style={buttonStyle}>
+                        Open
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Login / signup page shown until the user is authenticated
+ */
+
+import { useState } from "react";
+import type { CSSProperties, FormEvent } from "react";
+import { apiFetch, setAuthToken } from "../utils/api";
+import type { AuthUser } from "../utils/api";
+import { LogoIcon } from "./LogoIcon";
+
+interface LoginPageProps {
+  onAuthenticated: (user: AuthUser) => void;
+}
+
+const inputStyle: CSSProperties = {
+  padding: "0.75rem",
+  backgroundColor: "#000",
+  color: "#fff",
+  border: "1px solid #525252ff",
+  borderRadius: "4px",
+  fontSize: "1rem",
+};
+
+export function LoginPage({ onAuthenticated }: LoginPageProps) {
+  const [mode, setMode] = useState<"login" | "signup">("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await apiFetch(`/auth/${mode}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Authentication failed");
+
+      setAuthToken(data.token);
+      onAuthenticated(data.user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        backgroundColor: "#000",
+        color: "#fff",
+        minHeight: "100vh",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+      }}
+    >
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          backgroundColor: "#141414ff",
+          border: "2px solid #4f4f4fff",
+          borderRadius: "8px",
+          padding: "2rem",
+          width: "100%",
+          maxWidth: "360px",
+          display: "flex",
+          flexDirection: "column",
+          gap: "1rem",
+        }}
+      >
+        <h1 style={{ margin: 0, display: "flex", alignItems: "center", gap: "0.5rem" }}>
+          <LogoIcon size={28} />
+          GrokLearn
+        </h1>
+
+        <input
+          type="email"
+          placeholder="Email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          style={inputStyle}
+        />
+        <input
+          type="password"
+          placeholder="Password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          minLength={mode === "signup" ? 8 : undefined}
+          required
+          style={inputStyle}
+        />
+
+        {error && <p style={{ color: "#f66", margin: 0 }}>{error}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          style={{
+            padding: "0.75rem",
+            backgroundColor: "#000",
+            color: submitting ? "#666" : "#00ff00",
+            border: `2px solid ${submitting ? "#666" : "#00ff00"}`,
+            borderRadius: "8px",
+            fontSize: "1rem",
+            fontWeight: "bold",
+            cursor: submitting ? "not-allowed" : "pointer",
+          }}
+        >
+          {submitting ? "..." : mode === "login" ? "LOG IN" : "SIGN UP"}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === "login" ? "signup" : "login");
+            setError(null);
+          }}
+          style={{
+            background: "none",
+            border: "none",
+            color: "#888",
+            cursor: "pointer",
+          }}
+        >
+          {mode === "login" ? "No account? Sign up" : "Already have an account? Log in"}
+        </button>
+      </form>
+    </div>
+  );
+}
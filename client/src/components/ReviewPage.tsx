@@ -0,0 +1,329 @@
+/**
+ * Flashcard review screen - shows each due card, reveals its answer and takes the
+ * user's grade
+ *
+ * Flip cards run entirely over REST (see utils/review.ts). By voice, the review agent
+ * serves the cards and grades spoken answers, and the screen follows along; the grade
+ * buttons then ask the agent to record the user's own grade instead.
+ */
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { CSSProperties } from "react";
+import type { ConnectionState } from "../utils/connection";
+import { CONNECTION_LABELS, isConnectionActive } from "../utils/connection";
+import {
+  REVIEW_GRADES,
+  REVIEW_GRADE_LABELS,
+  fetchNextFlashcard,
+  gradeFlashcard,
+  selfGradeMessage,
+  startReviewSession,
+} from "../utils/review";
+import type { GradedFlashcard, ReviewGrade, ServedFlashcard } from "../utils/review";
+
+type ReviewMode = "cards" | "voice";
+
+interface ReviewPageProps {
+  onBack: () => void;
+  // The app's conversation, for reviewing with the review agent by voice
+  connection: ConnectionState;
+  onStartVoice: () => void;
+  onStopVoice: () => void;
+  onSendText: (text: string) => void;
+  // The card the review agent served last, and the last thing it said
+  voiceCard: ServedFlashcard | null;
+  assistantLine: string | null;
+  voiceError: string | null;
+}
+
+const GRADE_COLORS: Record<ReviewGrade, string> = {
+  again: "#a33",
+  hard: "#a70",
+  good: "#2a7",
+  easy: "#27a",
+};
+
+const buttonStyle: CSSProperties = {
+  padding: "0.5rem 1rem",
+  backgroundColor: "#333",
+  color: "#fff",
+  border: "none",
+  borderRadius: "4px",
+  cursor: "pointer",
+};
+
+const panelStyle: CSSProperties = {
+  backgroundColor: "#1a1a1a",
+  borderRadius: "8px",
+  padding: "1.5rem",
+};
+
+/**
+ * Why no card was served, in words for the user
+ */
+function describeNoCard(card: ServedFlashcard): string {
+  if (card.progress && card.progress.skipped > 0) {
+    const { reviewed, skipped, total } = card.progress;
+    return `That's every due card: ${reviewed} of ${total} reviewed, ${skipped} skipped.`;
+  }
+  if (card.progress && card.progress.total > 0) {
+    return `All ${card.progress.total} due cards reviewed. Nice work!`;
+  }
+  if (card.nextDueAt) {
+    return `Nothing is due right now. The next card is due ${new Date(card.nextDueAt).toLocaleString()}.`;
+  }
+  return "You don't have any flashcards yet. Learn something first!";
+}
+
+export function ReviewPage({
+  onBack,
+  connection,
+  onStartVoice,
+  onStopVoice,
+  onSendText,
+  voiceCard,
+  assistantLine,
+  voiceError,
+}: ReviewPageProps) {
+  const [mode, setMode] = useState<ReviewMode>("cards");
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [servedCard, setServedCard] = useState<ServedFlashcard | null>(null);
+  const [lastGrade, setLastGrade] = useState<GradedFlashcard | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The offline session is started once, however often the effect runs
+  const startedRef = useRef(false);
+
+  const card = mode === "voice" ? voiceCard : servedCard;
+
+  // Hide the answer again whenever a new card comes up
+  const [revealed, setRevealed] = useState(false);
+  const [shownCard, setShownCard] = useState(card);
+  if (card !== shownCard) {
+    setShownCard(card);
+    setRevealed(false);
+  }
+
+  const startCards = useCallback(async () => {
+    try {
+      setBusy(true);
+      setError(null);
+      const id = await startReviewSession();
+      setSessionId(id);
+      setServedCard(await fetchNextFlashcard(id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+    startCards();
+  }, [startCards]);
+
+  const canGrade =
+    !!card?.found && revealed && (mode === "cards" ? !busy : connection.status === "live");
+
+  const handleGrade = useCallback(
+    async (grade: ReviewGrade) => {
+      if (mode === "voice") {
+        onSendText(selfGradeMessage(grade));
+        return;
+      }
+      if (!sessionId) return;
+
+      try {
+        setBusy(true);
+        setError(null);
+        setLastGrade(await gradeFlashcard(sessionId, grade));
+        setServedCard(await fetchNextFlashcard(sessionId));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        setBusy(false);
+      }
+    },
+    [mode, sessionId, onSendText],
+  );
+
+  // Flip cards from the keyboard: space or enter shows the answer, 1 to 4 grade it
+  useEffect(() => {
+    if (mode !== "cards") return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Space and enter already press whichever button has focus
+      const onButton = event.target instanceof HTMLElement && event.target.tagName === "BUTTON";
+      const reveal = event.code === "Space" || event.key === "Enter";
+      if (reveal && !onButton && card?.found && !revealed) {
+        event.preventDefault();
+        setRevealed(true);
+        return;
+      }
+      const grade = REVIEW_GRADES[Number(event.key) - 1];
+      if (grade && canGrade) handleGrade(grade);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [mode, card, revealed, canGrade, handleGrade]);
+
+  const switchMode = (next: ReviewMode) => {
+    if (next === mode) return;
+    if (next === "voice") {
+      // A conversation still going from the main page would stream alongside this one
+      if (isConnectionActive(connection.status)) onStopVoice();
+      onStartVoice();
+    } else {
+      onStopVoice();
+    }
+    setMode(next);
+  };
+
+  const handleBack = () => {
+    if (mode === "voice") onStopVoice();
+    onBack();
+  };
+
+  const progress = card?.progress;
+
+  return (
+    <div
+      style={{
+        backgroundColor: "#000",
+        color: "#fff",
+        minHeight: "100vh",
+        padding: "1rem",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: "1rem", marginBottom: "1rem" }}>
+        <button onClick={handleBack} style={buttonStyle}>
+          ← Back
+        </button>
+        <h1 style={{ margin: 0 }}>Review</h1>
+        <div style={{ marginLeft: "auto", display: "flex", gap: "0.5rem" }}>
+          {(["cards", "voice"] as ReviewMode[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => switchMode(option)}
+              aria-pressed={mode === option}
+              style={{
+                ...buttonStyle,
+                backgroundColor: mode === option ? "#555" : "#222",
+              }}
+            >
+              {option === "cards" ? "Flip cards" : "By voice"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ maxWidth: "640px", margin: "0 auto" }}>
+        {mode === "voice" && (
+          <div style={{ marginBottom: "1rem", color: "#aaa", fontSize: "0.9rem" }}>
+            <div style={{ display: "flex", alignItems: "center", gap: "1rem" }}>
+              <span>{CONNECTION_LABELS[connection.status]}</span>
+              {!isConnectionActive(connection.status) && (
+                <button onClick={onStartVoice} style={buttonStyle}>
+                  Start
+                </button>
+              )}
+            </div>
+            {voiceError && (
+              <p role="alert" style={{ color: "#ff6b6b" }}>
+                {voiceError}
+              </p>
+            )}
+            {assistantLine && <p style={{ color: "#0ff", fontStyle: "italic" }}>{assistantLine}</p>}
+          </div>
+        )}
+
+        {mode === "cards" && busy && !card && <p>Loading...</p>}
+        {mode === "cards" && error && <p style={{ color: "#f66" }}>Error: {error}</p>}
+
+        {progress && progress.total > 0 && (
+          <div style={{ color: "#888", fontSize: "0.85rem", marginBottom: "0.5rem" }}>
+            {progress.reviewed} of {progress.total} due cards reviewed
+          </div>
+        )}
+
+        {card && !card.found && (
+          <div style={panelStyle}>
+            <p style={{ margin: 0 }}>{describeNoCard(card)}</p>
+          </div>
+        )}
+
+        {mode === "voice" && !card && connection.status === "live" && (
+          <p style={{ color: "#888" }}>Waiting for the first card...</p>
+        )}
+
+        {card?.found && (
+          <div style={panelStyle}>
+            {card.topic && (
+              <div style={{ color: "#888", fontSize: "0.8rem", marginBottom: "0.5rem" }}>
+                {card.topic}
+              </div>
+            )}
+            <div style={{ fontSize: "1.4rem", whiteSpace: "pre-wrap" }}>{card.question}</div>
+
+            <div
+              style={{
+                borderTop: "1px solid #333",
+                marginTop: "1.5rem",
+                paddingTop: "1.5rem",
+                minHeight: "3rem",
+              }}
+            >
+              {revealed ? (
+                <div style={{ fontSize: "1.2rem", color: "#0ff", whiteSpace: "pre-wrap" }}>
+                  {card.answer}
+                </div>
+              ) : (
+                <button onClick={() => setRevealed(true)} style={buttonStyle}>
+                  Show answer
+                </button>
+              )}
+            </div>
+
+            {revealed && (
+              <div style={{ display: "flex", gap: "0.5rem", marginTop: "1.5rem" }}>
+                {REVIEW_GRADES.map((grade, index) => (
+                  <button
+                    key={grade}
+                    onClick={() => handleGrade(grade)}
+                    disabled={!canGrade}
+                    title={mode === "cards" ? `Press ${index + 1}` : undefined}
+                    style={{
+                      ...buttonStyle,
+                      flex: 1,
+                      backgroundColor: GRADE_COLORS[grade],
+                      opacity: canGrade ? 1 : 0.5,
+                      cursor: canGrade ? "pointer" : "not-allowed",
+                    }}
+                  >
+                    {REVIEW_GRADE_LABELS[grade]}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {mode === "cards" && lastGrade?.nextReviewInDays !== undefined && (
+          <div style={{ color: "#888", fontSize: "0.85rem", marginTop: "0.75rem" }}>
+            The last card comes back in {lastGrade.nextReviewInDays}{" "}
+            {lastGrade.nextReviewInDays === 1 ? "day" : "days"}
+          </div>
+        )}
+
+        {mode === "voice" && (
+          <p style={{ color: "#666", fontSize: "0.85rem", marginTop: "1rem" }}>
+            Answer out loud and the coach grades you, or reveal the answer and grade yourself.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+/**
+ * Progress dashboard - review statistics from the /stats API
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import type { CSSProperties, ReactNode } from "react";
+import { apiFetch, readApiError } from "../utils/api";
+
+interface TopicStats {
+  topic: string;
+  cards: number;
+  reviews: number;
+  correct: number;
+  accuracy: number | null;
+  dueNow: number;
+}
+
+interface ReviewStats {
+  totals: {
+    cards: number;
+    reviewedCards: number;
+    reviews: number;
+    accuracy: number | null;
+    dueNow: number;
+  };
+  streak: { current: number; longest: number; reviewedToday: boolean };
+  topics: TopicStats[];
+  reviewsPerDay: { date: string; reviews: number; correct: number }[];
+  retention: { label: string; reviews: number; recalled: number; rate: number | null }[];
+  hardestCards: {
+    _id: string;
+    question: string;
+    topic: string;
+    reviews: number;
+    accuracy: number;
+    lapses: number;
+  }[];
+  forecast: { date: string; due: number }[];
+}
+
+interface StatsPageProps {
+  onBack: () => void;
+}
+
+const RANGE_OPTIONS = [7, 30, 90, 365];
+
+const panelStyle: CSSProperties = {
+  backgroundColor: "#1a1a1a",
+  borderRadius: "8px",
+  padding: "1rem",
+};
+
+const cellStyle: CSSProperties = {
+  padding: "0.4rem 0.75rem",
+  borderBottom: "1px solid #333",
+  textAlign: "left",
+};
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function shortDate(date: string): string {
+  const [, month, day] = date.split("-");
+  return `${Number(month)}/${Number(day)}`;
+}
+
+function Panel({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div style={panelStyle}>
+      <h2 style={{ fontSize: "1.1rem", color: "#ccc", margin: "0 0 0.75rem 0" }}>{title}</h2>
+      {children}
+    </div>
+  );
+}
+
+function Tile({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div style={{ ...panelStyle, flex: 1, minWidth: "140px" }}>
+      <div style={{ color: "#888", fontSize: "0.85rem" }}>{label}</div>
+      <div style={{ fontSize: "1.75rem", fontWeight: "bold", marginTop: "0.25rem" }}>{value}</div>
+    </div>
+  );
+}
+
+interface Bar {
+  key: string;
+  label: string;
+  value: number;
+  // Optional lighter-coloured share of the bar, e.g. correct reviews out of all reviews
+  highlight?: number;
+  title: string;
+}
+
+/**
+ * Minimal vertical bar chart drawn with divs
+ */
+function BarChart({ bars, color, max }: { bars: Bar[]; color: string; max?: number }) {
+  const top = Math.max(max ?? 0, ...bars.map((b) => b.value), 1);
+  // Label every bar when there are few, otherwise only some so they don't overlap
+  const labelEvery = Math.ceil(bars.length / 15);
+
+  return (
+    <div style={{ display: "flex", alignItems: "flex-end", gap: "2px", height: "140px" }}>
+      {bars.map((bar, index) => (
+        <div
+          key={bar.key}
+          title={bar.title}
+          style={{
+            flex: 1,
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "flex-end",
+            height: "100%",
+            minWidth: 0,
+          }}
+        >
+          <div
+            style={{
+              height: `${(bar.value / top) * 100}%`,
+              backgroundColor: color,
+              borderRadius: "2px 2px 0 0",
+              display: "flex",
+              flexDirection: "column",
+              justifyContent: "flex-end",
+              overflow: "hidden",
+            }}
+          >
+            {bar.highlight !== undefined && bar.value > 0 && (
+              <div
+                style={{
+                  height: `${(bar.highlight / bar.value) * 100}%`,
+                  backgroundColor: "#2a7",
+                }}
+              />
+            )}
+          </div>
+          <div
+            style={{
+              color: "#666",
+              fontSize: "0.7rem",
+              textAlign: "center",
+              height: "1rem",
+              whiteSpace: "nowrap",
+            }}
+          >
+            {index % labelEvery === 0 ? bar.label : ""}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function StatsPage({ onBack }: StatsPageProps) {
+  const [stats, setStats] = useState<ReviewStats | null>(null);
+  const [days, setDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams({
+        days: String(days),
+        tzOffset: String(new Date().getTimezoneOffset()),
+      });
+      const response = await apiFetch(`/stats?${params}`);
+      if (!response.ok) throw new Error(await readApiError(response, "Failed to fetch stats"));
+      setStats(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchStats();
+  }, [fetchStats]);
+
+  return (
+    <div
+      style={{
+        backgroundColor: "#000",
+        color: "#fff",
+        minHeight: "100vh",
+        padding: "1rem",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: "1rem", marginBottom: "1rem" }}>
+        <button
+          onClick={onBack}
+          style={{
+            padding: "0.5rem 1rem",
+            backgroundColor: "#333",
+            color: "#fff",
+            border: "none",
+            borderRadius: "4px",
+            cursor: "pointer",
+          }}
+        >
+          ← Back
+        </button>
+        <h1 style={{ margin: 0 }}>Progress</h1>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          style={{
+            marginLeft: "auto",
+            padding: "0.5rem",
+            backgroundColor: "#1a1a1a",
+            color: "#fff",
+            border: "1px solid #525252ff",
+            borderRadius: "4px",
+          }}
+        >
+          {RANGE_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              Last {option} days
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading && !stats && <p>Loading...</p>}
+      {error && <p style={{ color: "#f66" }}>Error: {error}</p>}
+
+      {stats && stats.totals.reviews === 0 && stats.totals.cards === 0 && (
+        <p style={{ color: "#888" }}>
+          No reviews yet. Start a review session to see your progress!
+        </p>
+      )}
+
+      {stats && (
+        <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "1rem" }}>
+            <Tile label="Cards" value={stats.totals.cards} />
+            <Tile label="Due now" value={stats.totals.dueNow} />
+            <Tile label="Total reviews" value={stats.totals.reviews} />
+            <Tile label="Accuracy" value={formatPercent(stats.totals.accuracy)} />
+            <Tile
+              label={stats.streak.reviewedToday ? "Streak" : "Streak (review today!)"}
+              value={`${stats.streak.current} ${stats.streak.current === 1 ? "day" : "days"}`}
+            />
+            <Tile label="Longest streak" value={`${stats.streak.longest} days`} />
+          </div>
+
+          <Panel title="Reviews per day">
+            <BarChart
+              color="#a33"
+              bars={stats.reviewsPerDay.map((day) => ({
+                key: day.date,
+                label: shortDate(day.date),
+                value: day.reviews,
+                highlight: day.correct,
+                title: `${day.date}: ${day.reviews} reviews, ${day.correct} correct`,
+              }))}
+            />
+          </Panel>
+
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "repeat(auto-fit, minmax(320px, 1fr))",
+              gap: "1rem",
+            }}
+          >
+            <Panel title="Coming due">
+              <BarChart
+                color="#47a"
+                bars={stats.forecast.map((day, index) => ({
+                  key: day.date,
+                  label: index === 0 ? "Today" : shortDate(day.date),
+                  value: day.due,
+                  title: `${index === 0 ? "Due today (including overdue)" : day.date}: ${day.due} cards`,
+                }))}
+              />
+            </Panel>
+
+            <Panel title="Retention by time since last review">
+              <BarChart
+                color="#2a7"
+                max={1}
+                bars={stats.retention.map((point) => ({
+                  key: point.label,
+                  label: point.label,
+                  value: point.rate ?? 0,
+                  title: `${point.label}: ${formatPercent(point.rate)} recalled (${point.recalled}/${point.reviews})`,
+                }))}
+              />
+            </Panel>
+          </div>
+
+          <Panel title="Topics">
+            {stats.topics.length === 0 ? (
+              <p style={{ color: "#888", margin: 0 }}>No topics yet.</p>
+            ) : (
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ color: "#888" }}>
+                    <th style={cellStyle}>Topic</th>
+                    <th style={cellStyle}>Cards</th>
+                    <th style={cellStyle}>Due</th>
+                    <th style={cellStyle}>Reviews</th>
+                    <th style={cellStyle}>Accuracy</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.topics.map((topic) => (
+                    <tr key={topic.topic}>
+                      <td style={cellStyle}>{topic.topic}</td>
+                      <td style={cellStyle}>{topic.cards}</td>
+                      <td style={cellStyle}>{topic.dueNow}</td>
+                      <td style={cellStyle}>{topic.reviews}</td>
+                      <td style={cellStyle}>{formatPercent(topic.accuracy)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Panel>
+
+          <Panel title="Hardest cards">
+            {stats.hardestCards.length === 0 ? (
+              <p style={{ color: "#888", margin: 0 }}>
+                Review cards at least twice to see which ones give you trouble.
+              </p>
+            ) : (
+              <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+                {stats.hardestCards.map((card) => (
+                  <div
+                    key={card._id}
+                    style={{ display: "flex", gap: "1rem", alignItems: "baseline" }}
+                  >
+                    <span style={{ color: "#f66", fontWeight: "bold", minWidth: "3rem" }}>
+                      {formatPercent(card.accuracy)}
+                    </span>
+                    <span style={{ flex: 1 }}>{card.question}</span>
+                    <span style={{ color: "#888", fontSize: "0.85rem" }}>
+                      {card.topic} · {card.reviews} reviews · {card.lapses} lapses
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Panel>
+        </div>
+      )}
+    </div>
+  );
+}
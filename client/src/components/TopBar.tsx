@@ -3,13 +3,24 @@
  */
 
 import React from "react";
+import { CONNECTION_LABELS } from "../utils/connection";
+import type { ConnectionStatus } from "../utils/connection";
 
 interface TopBarProps {
-  isConnected: boolean;
+  status: ConnectionStatus;
   provider: string | null;
 }
 
-export const TopBar: React.FC<TopBarProps> = ({ isConnected, provider }) => {
+const STATUS_COLORS: Record<ConnectionStatus, string> = {
+  idle: "#666",
+  connecting: "#ffcc00",
+  configuring: "#ffcc00",
+  live: "#00ff00",
+  reconnecting: "#ffcc00",
+  failed: "#ff0000",
+};
+
+export const TopBar: React.FC<TopBarProps> = ({ status, provider }) => {
   return (
     <div
       style={{
@@ -40,10 +51,10 @@ export const TopBar: React.FC<TopBarProps> = ({ isConnected, provider }) => {
               width: "12px",
               height: "12px",
               borderRadius: "50%",
-              backgroundColor: isConnected ? "#00ff00" : "#ff0000",
+              backgroundColor: STATUS_COLORS[status],
             }}
           />
-          <span style={{ fontSize: "0.9rem" }}>{isConnected ? "Connected" : "Disconnected"}</span>
+          <span style={{ fontSize: "0.9rem" }}>{CONNECTION_LABELS[status]}</span>
         </div>
       </div>
     </div>
@@ -1,16 +1,35 @@
 /**
- * TranscriptPanel component - Display conversation transcript
+ * TranscriptPanel component - Display conversation transcript, with a composer for
+ * typing to the assistant
  */
 
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
+import type { FormEvent } from "react";
 import type { TranscriptEntry } from "../types/messages";
 
 interface TranscriptPanelProps {
   transcript: TranscriptEntry[];
+  // Send a typed message; the composer is hidden without it
+  onSend?: (text: string) => void;
+  // Whether a conversation is live to send to
+  canSend: boolean;
 }
 
-export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ transcript }) => {
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
+  transcript,
+  onSend,
+  canSend,
+}) => {
   const panelRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState("");
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const text = draft.trim();
+    if (!text || !canSend || !onSend) return;
+    onSend(text);
+    setDraft("");
+  };
 
   // Auto-scroll to bottom when new entries arrive
   useEffect(() => {
@@ -101,6 +120,47 @@ export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ transcript })
           ))
         )}
       </div>
+
+      {onSend && (
+        <form
+          onSubmit={handleSubmit}
+          style={{ display: "flex", gap: "0.5rem", marginTop: "0.75rem" }}
+        >
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={canSend ? "Type a message..." : "Start a conversation to type here"}
+            disabled={!canSend}
+            aria-label="Message"
+            style={{
+              flex: 1,
+              padding: "0.5rem",
+              backgroundColor: "#000",
+              color: "#fff",
+              border: "1px solid #525252ff",
+              borderRadius: "4px",
+              fontSize: "0.95rem",
+              fontFamily: "inherit",
+            }}
+          />
+          <button
+            type="submit"
+            disabled={!canSend || !draft.trim()}
+            style={{
+              padding: "0.5rem 1rem",
+              backgroundColor: "#000",
+              color: canSend ? "#00ffff" : "#666",
+              border: `2px solid ${canSend ? "#00ffff" : "#666"}`,
+              borderRadius: "4px",
+              cursor: canSend ? "pointer" : "not-allowed",
+              fontWeight: "bold",
+            }}
+          >
+            SEND
+          </button>
+        </form>
+      )}
     </div>
   );
 };
@@ -0,0 +1,139 @@
+/**
+ * Turn-taking mode and its tuning, chosen before a conversation starts
+ */
+
+import type { CSSProperties } from "react";
+import { TURN_MODE_LABELS } from "../utils/turns";
+import type { TurnMode, TurnSettings } from "../utils/turns";
+
+interface TurnSettingsFormProps {
+  settings: TurnSettings;
+  onChange: (settings: TurnSettings) => void;
+  // Settings only apply when a conversation starts
+  disabled: boolean;
+}
+
+const controlStyle: CSSProperties = {
+  padding: "0.4rem",
+  backgroundColor: "#000",
+  color: "#fff",
+  border: "1px solid #525252ff",
+  borderRadius: "4px",
+};
+
+const labelStyle: CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: "0.5rem",
+  fontSize: "0.85rem",
+  color: "#aaa",
+};
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+function Slider({ label, value, min, max, step, format, disabled, onChange }: SliderProps) {
+  return (
+    <label style={labelStyle}>
+      <span style={{ width: "7.5rem" }}>{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(Number(e.target.value))}
+        style={{ flex: 1 }}
+      />
+      <span style={{ width: "3.5rem", textAlign: "right" }}>{format(value)}</span>
+    </label>
+  );
+}
+
+const formatMs = (value: number) => `${value} ms`;
+
+export function TurnSettingsForm({ settings, onChange, disabled }: TurnSettingsFormProps) {
+  const update = <K extends keyof TurnSettings>(key: K, value: TurnSettings[K]) =>
+    onChange({ ...settings, [key]: value });
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem", marginBottom: "1rem" }}>
+      <label style={labelStyle}>
+        <span style={{ width: "7.5rem" }}>Turn-taking</span>
+        <select
+          value={settings.mode}
+          disabled={disabled}
+          onChange={(e) => update("mode", e.target.value as TurnMode)}
+          style={{ ...controlStyle, flex: 1 }}
+        >
+          {(Object.keys(TURN_MODE_LABELS) as TurnMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {TURN_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {settings.mode === "server_vad" && (
+        <Slider
+          label="Sensitivity"
+          // Higher thresholds need more confidence, so they are less sensitive
+          value={1 - settings.threshold}
+          min={0.05}
+          max={0.95}
+          step={0.05}
+          format={(value) => `${Math.round(value * 100)}%`}
+          disabled={disabled}
+          onChange={(value) => update("threshold", Math.round((1 - value) * 100) / 100)}
+        />
+      )}
+
+      {settings.mode === "client_vad" && (
+        <Slider
+          label="Speech level"
+          value={settings.clientThreshold}
+          min={0.005}
+          max={0.1}
+          step={0.005}
+          format={(value) => value.toFixed(3)}
+          disabled={disabled}
+          onChange={(value) => update("clientThreshold", value)}
+        />
+      )}
+
+      {settings.mode !== "push_to_talk" && (
+        <>
+          <Slider
+            label="Pause to reply"
+            value={settings.silenceDurationMs}
+            min={200}
+            max={2000}
+            step={100}
+            format={formatMs}
+            disabled={disabled}
+            onChange={(value) => update("silenceDurationMs", value)}
+          />
+          <Slider
+            label="Lead-in kept"
+            value={settings.prefixPaddingMs}
+            min={0}
+            max={1000}
+            step={100}
+            format={formatMs}
+            disabled={disabled}
+            onChange={(value) => update("prefixPaddingMs", value)}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,70 @@
 /**
  * Audio capture and playback hook using Web Audio API
+ *
+ * Capture runs in an AudioWorklet (see worklets/capture-processor.ts) that chunks,
+ * meters and encodes the microphone's audio off the main thread. Browsers without
+ * AudioWorklet fall back to a ScriptProcessorNode doing the same work on the main thread.
+ *
+ * Playback hands the model's audio to a scheduler (see utils/playback.ts) that queues it
+ * gaplessly on the audio clock, converting it from the provider's output rate if the
+ * device runs at another.
  */
 
 import { useEffect, useRef, useState, useCallback } from "react";
-import { float32ToPCM16Base64, base64PCM16ToFloat32 } from "../utils/audio";
+import {
+  CAPTURE_PROCESSOR_NAME,
+  audioLevel as measureLevel,
+  base64PCM16ToFloat32,
+  createChunker,
+  float32ToPCM16Base64,
+} from "../utils/audio";
+import { createPlaybackScheduler } from "../utils/playback";
+import type { PlaybackPosition } from "../utils/playback";
+import type { CaptureChunk } from "../worklets/capture-processor";
+import captureProcessorUrl from "../worklets/capture-processor.ts?worker&url";
 
 const CHUNK_DURATION_MS = 100;
 
+interface PlayAudioOptions {
+  sampleRate?: number;
+  itemId?: string;
+}
+
 interface UseAudioStreamReturn {
   isCapturing: boolean;
-  startCapture: (onAudioData: (base64Audio: string) => void) => Promise<number>;
+  startCapture: (onAudioData: (base64Audio: string, level: number) => void) => Promise<number>;
   stopCapture: () => void;
-  stopPlayback: () => void;
-  playAudio: (base64Audio: string) => void;
+  // Cut playback off, returning how far it got
+  stopPlayback: () => PlaybackPosition | null;
+  // Queue audio at `sampleRate` (default: the device's), optionally tagged with its item
+  playAudio: (base64Audio: string, options?: PlayAudioOptions) => void;
+  // Create and resume the audio context; call from a click when not capturing
+  preparePlayback: () => void;
+  // How far playback has got, as heard by the user
+  getPlaybackPosition: () => PlaybackPosition | null;
   audioLevel: number;
   sampleRate: number;
 }
 
+/**
+ * Main-thread capture for browsers without AudioWorklet
+ */
+function createScriptProcessorCapture(
+  audioContext: AudioContext,
+  onChunk: (chunk: CaptureChunk) => void,
+): ScriptProcessorNode {
+  const processor = audioContext.createScriptProcessor(4096, 1, 1);
+  const chunker = createChunker(
+    Math.round((audioContext.sampleRate * CHUNK_DURATION_MS) / 1000),
+    (chunk) => onChunk({ audio: float32ToPCM16Base64(chunk), level: measureLevel(chunk) }),
+  );
+
+  processor.onaudioprocess = (event) => {
+    chunker.push(event.inputBuffer.getChannelData(0));
+  };
+  return processor;
+}
+
 export function useAudioStream(): UseAudioStreamReturn {
   const [isCapturing, setIsCapturing] = useState(false);
   const [audioLevel, setAudioLevel] = useState(0);
@@ -25,10 +73,10 @@ export function useAudioStream(): UseAudioStreamReturn {
   const audioContextRef = useRef<AudioContext | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const sourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const processorNodeRef = useRef<ScriptProcessorNode | null>(null);
-  const playbackQueueRef = useRef<Float32Array[]>([]);
-  const isPlayingRef = useRef(false);
-  const currentPlaybackSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const processorNodeRef = useRef<AudioWorkletNode | ScriptProcessorNode | null>(null);
+  // Whether the capture worklet loaded into the current audio context
+  const workletLoadedRef = useRef<Promise<boolean> | null>(null);
+  const playbackRef = useRef<ReturnType<typeof createPlaybackScheduler> | null>(null);
 
   // Initialize audio context with native sample rate
   const getAudioContext = useCallback(() => {
@@ -39,12 +87,32 @@ export function useAudioStream(): UseAudioStreamReturn {
       setSampleRate(nativeSampleRate);
       console.log(`Audio context initialized with native sample rate: ${nativeSampleRate}Hz`);
     }
+    // Browsers keep a context suspended until it's resumed, or created, from a user gesture
+    if (audioContextRef.current.state === "suspended") {
+      audioContextRef.current.resume().catch((error) => {
+        console.error("Failed to resume the audio context:", error);
+      });
+    }
     return audioContextRef.current;
   }, []);
 
+  // Load the capture worklet once per audio context; resolves false if it can't be used
+  const loadCaptureWorklet = useCallback((audioContext: AudioContext): Promise<boolean> => {
+    workletLoadedRef.current ??= audioContext.audioWorklet
+      ? audioContext.audioWorklet.addModule(captureProcessorUrl).then(
+          () => true,
+          (error) => {
+            console.error("Failed to load the capture worklet:", error);
+            return false;
+          },
+        )
+      : Promise.resolve(false);
+    return workletLoadedRef.current;
+  }, []);
+
   // Start audio capture - returns the detected sample rate
   const startCapture = useCallback(
-    async (onAudioData: (base64Audio: string) => void): Promise<number> => {
+    async (onAudioData: (base64Audio: string, level: number) => void): Promise<number> => {
       try {
         // Initialize audio context first to get native sample rate
         const audioContext = getAudioContext();
@@ -72,65 +140,31 @@ export function useAudioStream(): UseAudioStreamReturn {
         const source = audioContext.createMediaStreamSource(stream);
         sourceNodeRef.current = source;
 
-        // Create script processor for audio chunks
-        const bufferSize = 4096;
-        const processor = audioContext.createScriptProcessor(bufferSize, 1, 1);
-
-        let audioBuffer: Float32Array[] = [];
-        let totalSamples = 0;
-        const chunkSizeSamples = (audioContext.sampleRate * CHUNK_DURATION_MS) / 1000;
-
-        processor.onaudioprocess = (event) => {
-          const inputData = event.inputBuffer.getChannelData(0);
-
-          // Calculate audio level
-          let sum = 0;
-          for (let i = 0; i < inputData.length; i++) {
-            sum += inputData[i] * inputData[i];
-          }
-          const rms = Math.sqrt(sum / inputData.length);
-          setAudioLevel(rms);
-
-          // Buffer audio data
-          audioBuffer.push(new Float32Array(inputData));
-          totalSamples += inputData.length;
-
-          // Send chunks of ~100ms
-          while (totalSamples >= chunkSizeSamples) {
-            const chunk = new Float32Array(chunkSizeSamples);
-            let offset = 0;
-
-            while (offset < chunkSizeSamples && audioBuffer.length > 0) {
-              const buffer = audioBuffer[0];
-              const needed = chunkSizeSamples - offset;
-              const available = buffer.length;
-
-              if (available <= needed) {
-                // Use entire buffer
-                chunk.set(buffer, offset);
-                offset += available;
-                totalSamples -= available;
-                audioBuffer.shift();
-              } else {
-                // Use part of buffer
-                chunk.set(buffer.subarray(0, needed), offset);
-                audioBuffer[0] = buffer.subarray(needed);
-                offset += needed;
-                totalSamples -= needed;
-              }
-            }
-
-            // Convert to PCM16 and send
-            const base64Audio = float32ToPCM16Base64(chunk);
-            onAudioData(base64Audio);
-          }
+        const handleChunk = ({ audio, level }: CaptureChunk) => {
+          setAudioLevel(level);
+          onAudioData(audio, level);
         };
 
-        processorNodeRef.current = processor;
+        let processor: AudioWorkletNode | ScriptProcessorNode;
+        if (await loadCaptureWorklet(audioContext)) {
+          processor = new AudioWorkletNode(audioContext, CAPTURE_PROCESSOR_NAME, {
+            // A sink: it only reports to the main thread, so it needs no output
+            numberOfOutputs: 0,
+            channelCount: 1,
+            channelCountMode: "explicit",
+            processorOptions: { chunkDurationMs: CHUNK_DURATION_MS },
+          });
+          processor.port.onmessage = (event: MessageEvent<CaptureChunk>) => handleChunk(event.data);
+          source.connect(processor);
+        } else {
+          console.warn("AudioWorklet unavailable, capturing on the main thread instead");
+          processor = createScriptProcessorCapture(audioContext, handleChunk);
+          source.connect(processor);
+          // Script processors only run while connected to the destination; they output silence
+          processor.connect(audioContext.destination);
+        }
 
-        // Connect nodes
-        source.connect(processor);
-        processor.connect(audioContext.destination);
+        processorNodeRef.current = processor;
 
         setIsCapturing(true);
         console.log(`Audio capture started at ${nativeSampleRate}Hz (native)`);
@@ -142,12 +176,16 @@ export function useAudioStream(): UseAudioStreamReturn {
         throw error;
       }
     },
-    [getAudioContext],
+    [getAudioContext, loadCaptureWorklet],
   );
 
   // Stop audio capture
   const stopCapture = useCallback(() => {
     if (processorNodeRef.current) {
+      if (processorNodeRef.current instanceof AudioWorkletNode) {
+        processorNodeRef.current.port.postMessage("stop");
+        processorNodeRef.current.port.onmessage = null;
+      }
       processorNodeRef.current.disconnect();
       processorNodeRef.current = null;
     }
@@ -167,82 +205,49 @@ export function useAudioStream(): UseAudioStreamReturn {
     console.log("Audio capture stopped");
   }, []);
 
+  // Playback scheduler for the audio context, created on first use
+  const getPlayback = useCallback(() => {
+    playbackRef.current ??= createPlaybackScheduler(getAudioContext());
+    return playbackRef.current;
+  }, [getAudioContext]);
+
   // Stop audio playback
   const stopPlayback = useCallback(() => {
-    // Stop currently playing audio source
-    if (currentPlaybackSourceRef.current) {
-      try {
-        currentPlaybackSourceRef.current.stop();
-        currentPlaybackSourceRef.current.disconnect();
-      } catch (error) {
-        // Source may already be stopped, ignore error
-      }
-      currentPlaybackSourceRef.current = null;
-    }
-
-    // Clear the playback queue
-    playbackQueueRef.current = [];
-    isPlayingRef.current = false;
+    const position = playbackRef.current?.stop() ?? null;
     console.log("Audio playback stopped (interrupted)");
+    return position;
   }, []);
 
   // Play audio
   const playAudio = useCallback(
-    (base64Audio: string) => {
+    (base64Audio: string, options: PlayAudioOptions = {}) => {
       try {
+        const playback = getPlayback();
         const audioContext = getAudioContext();
-        const float32Data = base64PCM16ToFloat32(base64Audio);
-
-        // Add to playback queue
-        playbackQueueRef.current.push(float32Data);
-
-        // Start playback if not already playing
-        if (!isPlayingRef.current) {
-          isPlayingRef.current = true;
-          playNextChunk(audioContext);
-        }
+        playback.enqueue(
+          base64PCM16ToFloat32(base64Audio),
+          options.sampleRate ?? audioContext.sampleRate,
+          options.itemId,
+        );
       } catch (error) {
         console.error("Error playing audio:", error);
       }
     },
-    [getAudioContext],
+    [getAudioContext, getPlayback],
   );
 
-  // Play next chunk from queue
-  const playNextChunk = useCallback((audioContext: AudioContext) => {
-    if (playbackQueueRef.current.length === 0) {
-      isPlayingRef.current = false;
-      currentPlaybackSourceRef.current = null;
-      return;
-    }
-
-    const chunk = playbackQueueRef.current.shift()!;
-    // Use native sample rate for playback (no resampling needed)
-    const audioBuffer = audioContext.createBuffer(1, chunk.length, audioContext.sampleRate);
-    audioBuffer.getChannelData(0).set(chunk);
-
-    const source = audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(audioContext.destination);
+  // Get playback going from a user gesture, for replies spoken without the microphone
+  const preparePlayback = useCallback(() => {
+    getPlayback();
+  }, [getPlayback]);
 
-    // Store reference to current source for interruption handling
-    currentPlaybackSourceRef.current = source;
-
-    source.onended = () => {
-      // Clear reference when playback ends naturally
-      if (currentPlaybackSourceRef.current === source) {
-        currentPlaybackSourceRef.current = null;
-      }
-      playNextChunk(audioContext);
-    };
-
-    source.start();
-  }, []);
+  const getPlaybackPosition = useCallback(() => playbackRef.current?.position() ?? null, []);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       stopCapture();
+      playbackRef.current?.stop();
       if (audioContextRef.current) {
         audioContextRef.current.close();
       }
@@ -255,6 +260,8 @@ export function useAudioStream(): UseAudioStreamReturn {
     stopCapture,
     stopPlayback,
     playAudio,
+    preparePlayback,
+    getPlaybackPosition,
     audioLevel,
     sampleRate,
   };
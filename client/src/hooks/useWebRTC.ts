@@ -0,0 +1,423 @@
+/**
+ * WebRTC connection hook for the realtime API
+ *
+ * An alternative to useWebSocket + useAudioStream, used with VITE_REALTIME_MODE=webrtc.
+ * The microphone and the model's voice travel as Opus over a peer connection with the
+ * server, which bridges them to XAI; realtime events travel over a data channel. Tool
+ * calls run on the server, as in relay mode.
+ *
+ * It reports the same connection states as useWebSocket, but doesn't reconnect: a
+ * dropped call fails and the user starts a new one.
+ */
+
+import { useEffect, useReducer, useRef, useState, useCallback } from "react";
+import type { Message, DebugLogEntry } from "../types/messages";
+import { API_BASE_URL, apiFetch, getAuthToken } from "../utils/api";
+import { IDLE_CONNECTION, connectionReducer } from "../utils/connection";
+import { createTranscriptRecorder } from "../utils/transcripts";
+import { userTextMessage } from "../utils/messages";
+import type { UseWebSocketReturn } from "./useWebSocket";
+
+const ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+const LEVEL_INTERVAL_MS = 100;
+
+type SignalingMessage =
+  | { type: "offer"; sdp: string }
+  | { type: "ice-candidate"; candidate: RTCIceCandidateInit }
+  | { type: "ready" }
+  | { type: "error"; message: string };
+
+interface UseWebRTCReturn extends Omit<UseWebSocketReturn, "connect"> {
+  connect: (agent?: string, topic?: string) => Promise<void>;
+  isCapturing: boolean;
+  audioLevel: number;
+}
+
+interface SessionResponse {
+  session_id: string;
+  voice: string;
+  agent: string;
+  greeting?: string;
+  error?: string;
+}
+
+export function useWebRTC(onMessage: (message: Message) => void): UseWebRTCReturn {
+  const [connection, dispatchConnection] = useReducer(connectionReducer, IDLE_CONNECTION);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [audioLevel, setAudioLevel] = useState(0);
+  const [debugLogs, setDebugLogs] = useState<DebugLogEntry[]>([]);
+  const [provider, setProvider] = useState<string | null>(null);
+  const signalingRef = useRef<WebSocket | null>(null);
+  const pcRef = useRef<RTCPeerConnection | null>(null);
+  const channelRef = useRef<RTCDataChannel | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const levelTimerRef = useRef<number | null>(null);
+  const audioElementRef = useRef<HTMLAudioElement | null>(null);
+  const sessionConfigRef = useRef<{ voice: string; greeting?: string } | null>(null);
+  const sessionInfoRef = useRef<{ sessionId: string; agent: string } | null>(null);
+  const isSessionConfigured = useRef(false);
+  const [transcriptRecorder] = useState(createTranscriptRecorder);
+
+  const addDebugLog = useCallback((direction: "SEND" | "RECV", message: Message) => {
+    const log: DebugLogEntry = {
+      timestamp: new Date().toISOString(),
+      direction,
+      type: message.type,
+      message,
+    };
+
+    setDebugLogs((prev) => [...prev, log]);
+  }, []);
+
+  const clearLogs = useCallback(() => {
+    setDebugLogs([]);
+  }, []);
+
+  const sendMessage = useCallback(
+    (message: Message) => {
+      const channel = channelRef.current;
+      if (channel && channel.readyState === "open") {
+        channel.send(JSON.stringify(message));
+        addDebugLog("SEND", message);
+      } else {
+        console.error("Data channel not open");
+      }
+    },
+    [addDebugLog],
+  );
+
+  /**
+   * Send the user's typed message and ask for a reply
+   */
+  const sendText = useCallback(
+    (text: string) => {
+      const sessionId = sessionInfoRef.current?.sessionId;
+      if (!sessionId || !isSessionConfigured.current) return;
+
+      sendMessage(userTextMessage(text));
+      sendMessage({ type: "response.create" });
+      transcriptRecorder.typed(sessionId, text);
+    },
+    [sendMessage, transcriptRecorder],
+  );
+
+  /**
+   * Configure the XAI session. Audio formats, instructions and tools are set by the
+   * server, so only the voice and turn-taking are ours to choose.
+   */
+  const configureSession = useCallback(() => {
+    if (!sessionConfigRef.current) return;
+
+    sendMessage({
+      type: "session.update",
+      session: {
+        voice: sessionConfigRef.current.voice,
+        turn_detection: {
+          type: "server_vad",
+        },
+      },
+    });
+  }, [sendMessage]);
+
+  /**
+   * Send initial greeting after session is configured
+   */
+  const sendInitialGreeting = useCallback(() => {
+    console.log("🎤 Session configured, sending initial greeting...");
+
+    const greetingText =
+      sessionConfigRef.current?.greeting || "Hello! What would you like to learn about today?";
+
+    sendMessage({ type: "input_audio_buffer.commit" });
+    sendMessage(userTextMessage(greetingText));
+    sendMessage({ type: "response.create" });
+
+    console.log("🎤 Ready for voice interaction");
+  }, [sendMessage]);
+
+  const handleEvent = useCallback(
+    (message: Message) => {
+      addDebugLog("RECV", message);
+
+      if (message.type === "conversation.created" && !isSessionConfigured.current) {
+        console.log("📞 Conversation created, configuring session...");
+        configureSession();
+      }
+
+      if (message.type === "session.updated" && !isSessionConfigured.current) {
+        isSessionConfigured.current = true;
+        dispatchConnection({ type: "configured" });
+        sendInitialGreeting();
+      }
+
+      // The server has already run the tool; just reflect the result
+      if (message.type === "tool.result") {
+        const { name, args, result } = message as Message & {
+          name: string;
+          args: Record<string, unknown>;
+          result: Record<string, unknown>;
+        };
+        if (name === "switch_agent" && result.switched === true && sessionInfoRef.current) {
+          console.log(`🔄 [Client] Server switched to ${result.agent} agent`);
+          sessionInfoRef.current = { ...sessionInfoRef.current, agent: result.agent as string };
+        }
+        if (name === "create_flashcard" && result.success) {
+          onMessage({
+            type: "flashcard.created",
+            question: args.question,
+            answer: args.answer,
+            topic: args.topic,
+          } as Message);
+        }
+        if (name === "get_random_flashcard") {
+          onMessage({ ...result, type: "flashcard.served" });
+        }
+        if (name === "validate_answer" && result.recorded) {
+          onMessage({ ...result, type: "flashcard.graded" });
+        }
+      }
+
+      const sessionId = sessionInfoRef.current?.sessionId;
+      if (sessionId) transcriptRecorder.record(sessionId, message);
+      onMessage(message);
+    },
+    [onMessage, addDebugLog, configureSession, sendInitialGreeting, transcriptRecorder],
+  );
+
+  /**
+   * Tear down the peer connection, signaling and microphone
+   */
+  const teardown = useCallback(() => {
+    channelRef.current?.close();
+    channelRef.current = null;
+    pcRef.current?.close();
+    pcRef.current = null;
+    signalingRef.current?.close();
+    signalingRef.current = null;
+
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    if (levelTimerRef.current !== null) {
+      clearInterval(levelTimerRef.current);
+      levelTimerRef.current = null;
+    }
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    if (audioElementRef.current) {
+      audioElementRef.current.srcObject = null;
+    }
+
+    setIsCapturing(false);
+    setAudioLevel(0);
+    isSessionConfigured.current = false;
+    transcriptRecorder.settle();
+  }, [transcriptRecorder]);
+
+  const disconnect = useCallback(() => {
+    teardown();
+    dispatchConnection({ type: "disconnect" });
+  }, [teardown]);
+
+  /**
+   * Tear everything down and tell the user why
+   */
+  const fail = useCallback(
+    (error: string) => {
+      console.error(`❌ Connection failed: ${error}`);
+      teardown();
+      dispatchConnection({ type: "failed", error });
+    },
+    [teardown],
+  );
+
+  /**
+   * Measure the microphone level for the UI; the audio itself goes straight to the
+   * peer connection
+   */
+  const startLevelMeter = useCallback((stream: MediaStream) => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    audioContextRef.current = audioContext;
+    levelTimerRef.current = window.setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+      }
+      setAudioLevel(Math.sqrt(sum / samples.length));
+    }, LEVEL_INTERVAL_MS);
+  }, []);
+
+  const connect = useCallback(
+    async (agent?: string, topic?: string) => {
+      dispatchConnection({ type: "connect" });
+      try {
+        const params = new URLSearchParams({ mode: "webrtc" });
+        if (agent) params.set("agent", agent);
+        if (topic) params.set("topic", topic);
+        console.log(
+          `📝 Getting webrtc session${agent ? ` for agent: ${agent}` : ""}${topic ? ` (topic: ${topic})` : ""}...`,
+        );
+
+        const response = await apiFetch(`/session?${params}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to get session: ${response.statusText}`);
+        }
+
+        const data: SessionResponse = await response.json();
+
+        if (data.error) {
+          throw new Error(data.error);
+        }
+
+        sessionConfigRef.current = { voice: data.voice, greeting: data.greeting };
+        sessionInfoRef.current = { sessionId: data.session_id, agent: data.agent || "learn" };
+        console.log(`📋 Session ID: ${data.session_id}, Agent: ${sessionInfoRef.current.agent}`);
+
+        isSessionConfigured.current = false;
+        transcriptRecorder.reset();
+
+        try {
+          const healthResponse = await apiFetch("/health");
+          if (healthResponse.ok) {
+            const healthData = await healthResponse.json();
+            setProvider(healthData.provider || "XAI");
+          }
+        } catch {
+          setProvider("XAI");
+        }
+
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            channelCount: 1,
+            echoCancellation: true,
+            noiseSuppression: true,
+            autoGainControl: true,
+          },
+        });
+        streamRef.current = stream;
+        setIsCapturing(true);
+        startLevelMeter(stream);
+
+        audioElementRef.current ??= new Audio();
+        audioElementRef.current.autoplay = true;
+
+        const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+        pcRef.current = pc;
+
+        const signalingParams = new URLSearchParams({ token: getAuthToken() ?? "" });
+        const signalingUrl = `${API_BASE_URL.replace(/^http/, "ws")}/signaling/${encodeURIComponent(data.session_id)}`;
+        console.log(`🔌 Connecting to signaling: ${signalingUrl}`);
+        const signaling = new WebSocket(`${signalingUrl}?${signalingParams}`);
+        signalingRef.current = signaling;
+
+        const signal = (message: Record<string, unknown>) => {
+          if (signaling.readyState === WebSocket.OPEN) signaling.send(JSON.stringify(message));
+        };
+
+        pc.onicecandidate = (event) => {
+          if (event.candidate)
+            signal({ type: "ice-candidate", candidate: event.candidate.toJSON() });
+        };
+
+        pc.ontrack = (event) => {
+          const audio = audioElementRef.current;
+          if (!audio) return;
+          audio.srcObject = event.streams[0] ?? new MediaStream([event.track]);
+          audio.play().catch((error) => console.error("❌ Failed to play audio:", error));
+        };
+
+        pc.ondatachannel = (event) => {
+          const channel = event.channel;
+          channelRef.current = channel;
+
+          channel.onopen = () => {
+            console.log("✅ Data channel open");
+            dispatchConnection({ type: "opened" });
+          };
+          channel.onmessage = (messageEvent) => {
+            try {
+              handleEvent(JSON.parse(messageEvent.data));
+            } catch (error) {
+              console.error("Error parsing data channel message:", error);
+            }
+          };
+          channel.onclose = () => {
+            console.log("❌ Data channel closed");
+            if (channelRef.current === channel) fail("Lost the connection to the server");
+          };
+        };
+
+        pc.onconnectionstatechange = () => {
+          console.log(`📡 Peer connection ${pc.connectionState}`);
+          if (pc.connectionState === "failed") fail("The call to the server failed");
+        };
+
+        signaling.onmessage = async (event) => {
+          try {
+            const message: SignalingMessage = JSON.parse(event.data);
+
+            if (message.type === "offer") {
+              await pc.setRemoteDescription({ type: "offer", sdp: message.sdp });
+              // Reuses the audio transceiver from the server's offer
+              stream.getAudioTracks().forEach((track) => pc.addTrack(track, stream));
+              const answer = await pc.createAnswer();
+              await pc.setLocalDescription(answer);
+              signal({ type: "answer", sdp: answer.sdp });
+            } else if (message.type === "ice-candidate") {
+              await pc.addIceCandidate(message.candidate);
+            } else if (message.type === "ready") {
+              console.log("✅ WebRTC connection ready");
+            } else if (message.type === "error") {
+              console.error(`❌ Signaling error: ${message.message}`);
+            }
+          } catch (error) {
+            console.error("❌ Signaling failed:", error);
+          }
+        };
+
+        signaling.onclose = (event) => {
+          console.log(
+            `❌ Signaling closed - Code: ${event.code}, Reason: ${event.reason || "No reason"}`,
+          );
+          if (signalingRef.current === signaling) fail("Lost the connection to the server");
+        };
+      } catch (error) {
+        console.error("❌ Failed to connect:", error);
+        teardown();
+        dispatchConnection({
+          type: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+    [handleEvent, teardown, fail, startLevelMeter, transcriptRecorder],
+  );
+
+  // Cleanup on unmount
+  useEffect(() => disconnect, [disconnect]);
+
+  return {
+    connection,
+    connect,
+    disconnect,
+    sendMessage,
+    sendText,
+    debugLogs,
+    clearLogs,
+    provider,
+    isCapturing,
+    audioLevel,
+  };
+}
@@ -1,33 +1,81 @@
 /**
- * WebSocket connection hook using ephemeral tokens
- * Connects directly to XAI's realtime API
+ * WebSocket connection hook for the realtime API
+ *
+ * In direct mode (the default) it connects straight to the server's realtime provider
+ * (XAI unless configured otherwise) with an ephemeral token and relays tool calls to the
+ * server over HTTP. With VITE_REALTIME_MODE=relay it connects to the server's /realtime
+ * relay instead, which talks to the provider and runs tools itself.
+ *
+ * Ephemeral tokens only last a few minutes. Shortly before one expires, the hook asks
+ * the server to refresh the session and moves to a new connection at the next pause in
+ * the conversation; if the connection drops, it reconnects the same way. Either way the
+ * server briefs the model on the conversation so far, so it carries on without
+ * greeting the user again.
+ *
+ * The connection's progress is exposed as `connection` (see utils/connection.ts). A
+ * dropped connection is retried with backoff, waiting for the browser to come back
+ * online if it has gone offline, and microphone audio from the last few seconds is held
+ * back and sent once the new connection is up, so a short drop doesn't lose what the
+ * user said. When the retries run out the connection fails with an error to show.
  */
 
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useReducer, useRef, useState, useCallback } from "react";
 import type { Message, DebugLogEntry } from "../types/messages";
-
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
-const XAI_REALTIME_URL = "wss://api.x.ai/v1/realtime";
-
-interface AgentSwitchInfo {
-  agent: string;
-  topic?: string;
-}
-
-interface UseWebSocketReturn {
-  isConnected: boolean;
-  connect: (sampleRate: number, agent?: string, topic?: string) => Promise<void>;
+import { API_BASE_URL, apiFetch, getAuthToken, readApiError } from "../utils/api";
+import { connectToProvider } from "../utils/providers";
+import type { ProviderInfo } from "../utils/providers";
+import { pcm16DurationMs } from "../utils/audio";
+import { createActivityTracker } from "../utils/activity";
+import { IDLE_CONNECTION, connectionReducer, reconnectDelay } from "../utils/connection";
+import type { ConnectionState } from "../utils/connection";
+import { createTranscriptRecorder } from "../utils/transcripts";
+import { userTextMessage } from "../utils/messages";
+
+const REALTIME_MODE: "direct" | "relay" =
+  import.meta.env.VITE_REALTIME_MODE === "relay" ? "relay" : "direct";
+
+// Move to a refreshed connection this long before the ephemeral token expires
+const REFRESH_MARGIN_MS = 30_000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+// Microphone audio held back while reconnecting; anything older is dropped
+const MAX_BUFFERED_AUDIO_MS = 5000;
+const OFFLINE_POLL_MS = 1000;
+
+export interface UseWebSocketReturn {
+  connection: ConnectionState;
+  connect: (
+    sampleRate: number,
+    agent?: string,
+    topic?: string,
+    options?: ConnectOptions,
+  ) => Promise<void>;
   disconnect: () => void;
   sendMessage: (message: Message) => void;
+  // Send a typed message as the user's turn
+  sendText: (text: string) => void;
   debugLogs: DebugLogEntry[];
   clearLogs: () => void;
   provider: string | null;
-  pendingAgentSwitch: AgentSwitchInfo | null;
-  clearPendingAgentSwitch: () => void;
 }
 
+export interface ConnectOptions {
+  // The session's turn_detection (default server VAD); null leaves the turns to the caller
+  turnDetection?: Record<string, unknown> | null;
+  // Have the model reply in text only, without audio
+  textReplies?: boolean;
+}
+
+const DEFAULT_CONNECT_OPTIONS: Required<ConnectOptions> = {
+  turnDetection: { type: "server_vad" },
+  textReplies: false,
+};
+
 interface SessionResponse {
-  client_secret: {
+  session_id: string;
+  mode: "direct" | "relay";
+  provider: ProviderInfo;
+  // Only issued in direct mode
+  client_secret?: {
     value: string;
     expires_at: number;
   };
@@ -36,9 +84,49 @@ interface SessionResponse {
   tools: unknown[];
   agent: string;
   greeting?: string;
+  // Set when refreshing a session that already has a conversation to carry on
+  resumed?: boolean;
   error?: string;
 }
 
+/**
+ * A session request the server turned down
+ */
+class SessionRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Ask the server for a new session, or to refresh an existing one
+ */
+async function requestSession(path: string, params: URLSearchParams): Promise<SessionResponse> {
+  const queryString = params.toString();
+  const response = await apiFetch(`${path}${queryString ? `?${queryString}` : ""}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const message = await readApiError(response, `Failed to get session: ${response.statusText}`);
+    throw new SessionRequestError(message, response.status);
+  }
+
+  const data: SessionResponse = await response.json();
+
+  if (data.error) {
+    throw new Error(data.error);
+  }
+
+  return data;
+}
+
 /**
  * Execute a tool call by sending it to the server
  */
@@ -46,11 +134,10 @@ async function executeToolOnServer(
   toolName: string,
   args: Record<string, unknown>,
   sessionId: string,
-  agent: string,
 ): Promise<Record<string, unknown>> {
   console.log(`🛠️ [Client] Calling server to execute tool: ${toolName}`, args);
 
-  const response = await fetch(`${API_BASE_URL}/tools/execute`, {
+  const response = await apiFetch("/tools/execute", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -59,7 +146,6 @@ async function executeToolOnServer(
       toolName,
       args,
       sessionId,
-      agent,
     }),
   });
 
@@ -74,11 +160,12 @@ async function executeToolOnServer(
   return data.result;
 }
 
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
 export function useWebSocket(onMessage: (message: Message) => void): UseWebSocketReturn {
-  const [isConnected, setIsConnected] = useState(false);
+  const [connection, dispatchConnection] = useReducer(connectionReducer, IDLE_CONNECTION);
   const [debugLogs, setDebugLogs] = useState<DebugLogEntry[]>([]);
   const [provider, setProvider] = useState<string | null>(null);
-  const [pendingAgentSwitch, setPendingAgentSwitch] = useState<AgentSwitchInfo | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
   const sessionConfigRef = useRef<{
     voice: string;
@@ -87,8 +174,28 @@ export function useWebSocket(onMessage: (message: Message) => void): UseWebSocke
     sampleRate: number;
     greeting?: string;
   } | null>(null);
-  const sessionInfoRef = useRef<{ sessionId: string; agent: string } | null>(null);
+  const sessionInfoRef = useRef<{
+    sessionId: string;
+    agent: string;
+    mode: "direct" | "relay";
+  } | null>(null);
   const isSessionConfigured = useRef(false);
+  const connectOptionsRef = useRef(DEFAULT_CONNECT_OPTIONS);
+  const [transcriptRecorder] = useState(createTranscriptRecorder);
+  const [activity] = useState(createActivityTracker);
+  // A refreshed connection getting ready to take over from the live one
+  const handoverRef = useRef<WebSocket | null>(null);
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const refreshDueRef = useRef(false);
+  const resumingRef = useRef(false);
+  // Whether connect is still getting a session, before there is a socket to show for it
+  const connectingRef = useRef(false);
+  const reconnectAttemptsRef = useRef(0);
+  // Whether the current session has been live, so a drop is worth reconnecting
+  const wasLiveRef = useRef(false);
+  const bufferedAudioRef = useRef<{ audio: string; durationMs: number }[]>([]);
+  // Lets a connection's handlers reach resume, which is defined after them
+  const resumeRef = useRef<(handover: boolean) => void>(() => {});
 
   const addDebugLog = useCallback((direction: "SEND" | "RECV", message: Message) => {
     // Skip audio messages
@@ -113,6 +220,43 @@ export function useWebSocket(onMessage: (message: Message) => void): UseWebSocke
     setDebugLogs([]);
   }, []);
 
+  /**
+   * Save finished user and assistant turns to the session's transcript on the server
+   */
+  const recordTranscript = useCallback(
+    (message: Message) => {
+      const sessionId = sessionInfoRef.current?.sessionId;
+      if (sessionId) transcriptRecorder.record(sessionId, message);
+    },
+    [transcriptRecorder],
+  );
+
+  /**
+   * Surface tool results the UI cares about as client-side events
+   */
+  const notifyToolResult = useCallback(
+    (name: string, args: Record<string, unknown>, result: Record<string, unknown> | null) => {
+      // Notify about flashcard creation
+      if (name === "create_flashcard" && result?.success) {
+        onMessage({
+          type: "flashcard.created",
+          question: args.question,
+          answer: args.answer,
+          topic: args.topic,
+        } as Message);
+      }
+
+      // Let a review screen follow the cards the review agent quizzes on
+      if (name === "get_random_flashcard" && result) {
+        onMessage({ ...result, type: "flashcard.served" });
+      }
+      if (name === "validate_answer" && result?.recorded) {
+        onMessage({ ...result, type: "flashcard.graded" });
+      }
+    },
+    [onMessage],
+  );
+
   /**
    * Configure the XAI session after connection
    */
@@ -145,9 +289,8 @@ export function useWebSocket(onMessage: (message: Message) => void): UseWebSocke
               },
             },
           },
-          turn_detection: {
-            type: "server_vad",
-          },
+          turn_detection: connectOptionsRef.current.turnDetection,
+          ...(connectOptionsRef.current.textReplies && { output_modalities: ["text"] }),
         },
       };
 
@@ -172,21 +315,9 @@ export function useWebSocket(onMessage: (message: Message) => void): UseWebSocke
         sessionConfigRef.current?.greeting || "Hello! What would you like to learn about today?";
 
       // Create greeting message with specific content from server
-      const greetingMessage = {
-        type: "conversation.item.create",
-        item: {
-          type: "message",
-          role: "user",
-          content: [
-            {
-              type: "input_text",
-              text: greetingText,
-            },
-          ],
-        },
-      };
+      const greetingMessage = userTextMessage(greetingText);
       ws.send(JSON.stringify(greetingMessage));
-      addDebugLog("SEND", greetingMessage as Message);
+      addDebugLog("SEND", greetingMessage);
 
       // Request response
       ws.send(JSON.stringify({ type: "response.create" }));
@@ -196,232 +327,481 @@ export function useWebSocket(onMessage: (message: Message) => void): UseWebSocke
     [addDebugLog],
   );
 
-  const connect = useCallback(
-    async (sampleRate: number, agent?: string, topic?: string) => {
-      try {
-        const params = new URLSearchParams();
-        if (agent) params.set("agent", agent);
-        if (topic) params.set("topic", topic);
-        const queryString = params.toString();
-        console.log(
-          `📝 Getting ephemeral token${agent ? ` for agent: ${agent}` : ""}${topic ? ` (topic: ${topic})` : ""}...`,
-        );
-
-        // Get ephemeral token from backend
-        const response = await fetch(
-          `${API_BASE_URL}/session${queryString ? `?${queryString}` : ""}`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-          },
-        );
+  /**
+   * Take on a session from the server: its settings for session.update and its ID
+   * for tool calls
+   */
+  const applySession = useCallback((data: SessionResponse, sampleRate: number) => {
+    sessionConfigRef.current = {
+      voice: data.voice,
+      instructions: data.instructions,
+      tools: data.tools,
+      sampleRate,
+      greeting: data.greeting,
+    };
+    sessionInfoRef.current = {
+      sessionId: data.session_id,
+      agent: data.agent || "learn",
+      mode: data.mode,
+    };
+  }, []);
 
-        if (!response.ok) {
-          throw new Error(`Failed to get session: ${response.statusText}`);
-        }
+  /**
+   * Close every connection and stop any refresh or reconnection in progress
+   */
+  const teardown = useCallback(() => {
+    sessionInfoRef.current = null;
+    if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+    refreshTimerRef.current = null;
+    refreshDueRef.current = false;
+    bufferedAudioRef.current = [];
+
+    const ws = wsRef.current;
+    const pending = handoverRef.current;
+    wsRef.current = null;
+    handoverRef.current = null;
+    ws?.close();
+    pending?.close();
+    isSessionConfigured.current = false;
+    transcriptRecorder.settle();
+  }, [transcriptRecorder]);
 
-        const data: SessionResponse = await response.json();
+  /**
+   * Give up on the session and tell the user why
+   */
+  const fail = useCallback(
+    (error: string) => {
+      console.error(`❌ Connection failed: ${error}`);
+      teardown();
+      dispatchConnection({ type: "failed", error });
+    },
+    [teardown],
+  );
 
-        if (data.error) {
-          throw new Error(data.error);
-        }
+  /**
+   * Refresh the session shortly before its ephemeral token expires
+   */
+  const scheduleRefresh = useCallback(
+    (data: SessionResponse) => {
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+      refreshTimerRef.current = null;
+      refreshDueRef.current = false;
+      if (!data.client_secret) return;
+
+      const delay = data.client_secret.expires_at * 1000 - Date.now() - REFRESH_MARGIN_MS;
+      refreshTimerRef.current = setTimeout(
+        () => {
+          refreshTimerRef.current = null;
+          refreshDueRef.current = true;
+          if (activity.isIdle()) resumeRef.current(true);
+        },
+        Math.max(0, delay),
+      );
+    },
+    [activity],
+  );
 
-        const ephemeralToken = data.client_secret.value;
+  /**
+   * Open a realtime connection for a session. With `handover` the live connection
+   * stays in use until this one is configured, then it's closed.
+   */
+  const openSocket = useCallback(
+    (data: SessionResponse, handover = false) => {
+      let ws: WebSocket;
+      if (data.client_secret) {
+        // Connect directly to the provider with the ephemeral token
         console.log(
           `✅ Ephemeral token received, expires at: ${new Date(data.client_secret.expires_at * 1000).toISOString()}`,
         );
+        console.log(`🔌 Connecting to ${data.provider.name}: ${data.provider.realtime_url}`);
+        ws = connectToProvider(data.provider, data.client_secret.value);
+      } else {
+        // Connect to the server's relay, which holds the provider connection
+        const relayParams = new URLSearchParams({
+          session_id: data.session_id,
+          token: getAuthToken() ?? "",
+        });
+        const relayUrl = `${API_BASE_URL.replace(/^http/, "ws")}/realtime`;
+        console.log(`🔌 Connecting to relay: ${relayUrl}`);
+        ws = new WebSocket(`${relayUrl}?${relayParams}`);
+      }
 
-        // Store session config for later use
-        sessionConfigRef.current = {
-          voice: data.voice,
-          instructions: data.instructions,
-          tools: data.tools,
-          sampleRate,
-          greeting: data.greeting,
-        };
-        console.log(`🛠️ Tools configured:`, data.tools?.length || 0, "tools");
-
-        // Generate a session ID and store agent info
-        const sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-        sessionInfoRef.current = {
-          sessionId,
-          agent: data.agent || "learn",
-        };
-        console.log(`📋 Session ID: ${sessionId}, Agent: ${sessionInfoRef.current.agent}`);
-
+      if (handover) {
+        handoverRef.current = ws;
+      } else {
+        wsRef.current = ws;
         isSessionConfigured.current = false;
+        activity.reset();
+      }
+      // Whether this connection has been sent its session.update
+      let configured = false;
 
-        // Get provider info from health check
+      ws.onopen = () => {
+        console.log("✅ WebSocket connected to realtime API");
+        dispatchConnection({ type: "opened" });
+      };
+
+      ws.onmessage = async (event) => {
         try {
-          const healthResponse = await fetch(`${API_BASE_URL}/health`);
-          if (healthResponse.ok) {
-            const healthData = await healthResponse.json();
-            setProvider(healthData.provider || "XAI");
+          const message: Message = JSON.parse(event.data);
+          addDebugLog("RECV", message);
+          activity.observe(message);
+
+          // Handle conversation.created - configure session
+          if (message.type === "conversation.created" && !configured) {
+            console.log("📞 Conversation created, configuring session...");
+            configureSession(ws);
           }
-        } catch {
-          setProvider("XAI");
-        }
 
-        // Connect directly to XAI API with ephemeral token
-        console.log(`🔌 Connecting to XAI API: ${XAI_REALTIME_URL}`);
-        const ws = new WebSocket(XAI_REALTIME_URL, [
-          "realtime",
-          `openai-insecure-api-key.${ephemeralToken}`,
-          "openai-beta.realtime-v1",
-        ]);
-
-        ws.onopen = () => {
-          console.log("✅ WebSocket connected to XAI API");
-          setIsConnected(true);
-        };
-
-        ws.onmessage = async (event) => {
-          try {
-            const message: Message = JSON.parse(event.data);
-            addDebugLog("RECV", message);
-
-            // Handle conversation.created - configure session
-            if (message.type === "conversation.created" && !isSessionConfigured.current) {
-              console.log("📞 Conversation created, configuring session...");
-              configureSession(ws);
+          // Handle session.updated - take over from the previous connection, if any,
+          // then greet the user or carry on where the conversation left off
+          if (message.type === "session.updated" && !configured) {
+            configured = true;
+            if (handoverRef.current === ws) {
+              const previous = wsRef.current;
+              handoverRef.current = null;
+              wsRef.current = ws;
+              previous?.close(1000, "Session refreshed");
+              console.log("🔁 Moved to the refreshed connection");
+            }
+            isSessionConfigured.current = true;
+            wasLiveRef.current = true;
+            reconnectAttemptsRef.current = 0;
+            dispatchConnection({ type: "configured" });
+            scheduleRefresh(data);
+
+            // Catch the model up on what the user said while the connection was down
+            const buffered = bufferedAudioRef.current.splice(0);
+            if (buffered.length > 0) {
+              console.log(
+                `🎙️ Sending ${buffered.length} audio chunks held back while reconnecting`,
+              );
+              buffered.forEach(({ audio }) =>
+                ws.send(JSON.stringify({ type: "input_audio_buffer.append", audio })),
+              );
             }
 
-            // Handle session.updated - send initial greeting
-            if (message.type === "session.updated" && !isSessionConfigured.current) {
-              isSessionConfigured.current = true;
+            if (data.resumed) {
+              console.log("🔁 Session resumed");
+            } else {
               sendInitialGreeting(ws);
             }
+          }
 
-            // Handle tool calls - relay to server and send result back to XAI
-            if (message.type === "response.function_call_arguments.done") {
-              console.log("function call!!!", message);
-
-              const toolMessage = message as Message & {
-                name: string;
-                call_id: string;
-                arguments: string;
+          // In relay mode the server has already run the tool; just reflect the result
+          if (message.type === "tool.result") {
+            const { name, args, result } = message as Message & {
+              name: string;
+              args: Record<string, unknown>;
+              result: Record<string, unknown>;
+            };
+            if (name === "switch_agent" && result.switched === true && sessionInfoRef.current) {
+              console.log(`🔄 [Client] Relay switched to ${result.agent} agent`);
+              sessionInfoRef.current = {
+                ...sessionInfoRef.current,
+                agent: result.agent as string,
               };
+            }
+            activity.toolAnswered();
+            notifyToolResult(name, args, result);
+          }
 
-              console.log(`🛠️ [Client] Tool call received: ${toolMessage.name}`);
-
-              try {
-                const args = JSON.parse(toolMessage.arguments || "{}");
-                const { sessionId, agent } = sessionInfoRef.current || {
-                  sessionId: "unknown",
-                  agent: "learn",
-                };
-
-                // Execute tool on server
-                const result = await executeToolOnServer(toolMessage.name, args, sessionId, agent);
-
-                if (
-                  toolMessage.name === "switch_agent" &&
-                  result &&
-                  typeof result === "object" &&
-                  "switched" in result &&
-                  result.switched === true &&
-                  "agent" in result
-                ) {
-                  const newAgent = result.agent as string;
-                  const topic =
-                    "topic" in result ? (result.topic as string | undefined) : undefined;
-                  console.log(
-                    `🔄 [Client] Agent switch requested to: ${newAgent}${topic ? ` (topic: ${topic})` : ""}`,
-                  );
-                  ws.close(); // Close immediately to stop receiving messages
-                  setPendingAgentSwitch({ agent: newAgent, topic });
-                  return;
-                }
-
-                // Notify about flashcard creation
-                if (
-                  toolMessage.name === "create_flashcard" &&
-                  result &&
-                  typeof result === "object" &&
-                  "success" in result &&
-                  result.success
-                ) {
-                  onMessage({
-                    type: "flashcard.created",
-                    question: args.question,
-                    answer: args.answer,
-                    topic: args.topic,
-                  } as Message);
-                }
-
-                // Send result back to XAI
-                const functionOutput = {
-                  type: "conversation.item.create",
-                  item: {
-                    type: "function_call_output",
-                    call_id: toolMessage.call_id,
-                    output: JSON.stringify(result),
-                  },
+          // Handle tool calls - relay to server and send result back to XAI
+          if (message.type === "response.function_call_arguments.done" && data.mode !== "relay") {
+            console.log("function call!!!", message);
+
+            const toolMessage = message as Message & {
+              name: string;
+              call_id: string;
+              arguments: string;
+            };
+
+            console.log(`🛠️ [Client] Tool call received: ${toolMessage.name}`);
+
+            try {
+              const args = JSON.parse(toolMessage.arguments || "{}");
+              const { sessionId } = sessionInfoRef.current || { sessionId: "unknown" };
+
+              // Execute tool on server
+              const result = await executeToolOnServer(toolMessage.name, args, sessionId);
+
+              // Hand the live session over to the new agent: swap its instructions and
+              // tools in place and keep the model's view of the tool result small
+              let output: Record<string, unknown> = result;
+              if (
+                toolMessage.name === "switch_agent" &&
+                result?.switched === true &&
+                sessionConfigRef.current
+              ) {
+                const { instructions, tools, ...handoff } = result as Record<string, unknown> & {
+                  instructions: string;
+                  tools: unknown[];
                 };
-                ws.send(JSON.stringify(functionOutput));
-                addDebugLog("SEND", functionOutput as Message);
-                console.log(`📤 [Client] Sent tool result to XAI`);
-
-                // Trigger response from XAI
-                ws.send(JSON.stringify({ type: "response.create" }));
-              } catch (error) {
-                console.error(`❌ [Client] Tool execution error:`, error);
-
-                // Send error result back to XAI
-                const errorOutput = {
-                  type: "conversation.item.create",
-                  item: {
-                    type: "function_call_output",
-                    call_id: toolMessage.call_id,
-                    output: JSON.stringify({ error: String(error) }),
-                  },
+                console.log(
+                  `🔄 [Client] Switching to ${handoff.agent} agent${handoff.topic ? ` (topic: ${handoff.topic})` : ""}`,
+                );
+                sessionConfigRef.current = { ...sessionConfigRef.current, instructions, tools };
+                sessionInfoRef.current = {
+                  sessionId,
+                  agent: handoff.agent as string,
+                  mode: data.mode,
                 };
-                ws.send(JSON.stringify(errorOutput));
-                ws.send(JSON.stringify({ type: "response.create" }));
+                configureSession(ws);
+                output = handoff;
               }
+
+              notifyToolResult(toolMessage.name, args, result);
+
+              // Send result back to XAI
+              const functionOutput = {
+                type: "conversation.item.create",
+                item: {
+                  type: "function_call_output",
+                  call_id: toolMessage.call_id,
+                  output: JSON.stringify(output),
+                },
+              };
+              ws.send(JSON.stringify(functionOutput));
+              addDebugLog("SEND", functionOutput as Message);
+              console.log(`📤 [Client] Sent tool result to XAI`);
+
+              // Trigger response from XAI
+              ws.send(JSON.stringify({ type: "response.create" }));
+              activity.toolAnswered();
+            } catch (error) {
+              console.error(`❌ [Client] Tool execution error:`, error);
+
+              // Send error result back to XAI
+              const errorOutput = {
+                type: "conversation.item.create",
+                item: {
+                  type: "function_call_output",
+                  call_id: toolMessage.call_id,
+                  output: JSON.stringify({ error: String(error) }),
+                },
+              };
+              ws.send(JSON.stringify(errorOutput));
+              ws.send(JSON.stringify({ type: "response.create" }));
+              activity.toolAnswered();
             }
+          }
+
+          recordTranscript(message);
+          onMessage(message);
 
-            onMessage(message);
-          } catch (error) {
-            console.error("Error parsing WebSocket message:", error);
+          // A refresh waits for a pause in the conversation
+          if (refreshDueRef.current && wsRef.current === ws && activity.isIdle()) {
+            resumeRef.current(true);
           }
-        };
+        } catch (error) {
+          console.error("Error parsing WebSocket message:", error);
+        }
+      };
 
-        ws.onerror = (error) => {
-          console.error("❌ WebSocket error:", error);
-        };
+      ws.onerror = (error) => {
+        console.error("❌ WebSocket error:", error);
+      };
 
-        ws.onclose = (event) => {
-          console.log(
-            `❌ WebSocket closed - Code: ${event.code}, Reason: ${event.reason || "No reason"}`,
-          );
-          setIsConnected(false);
-          wsRef.current = null;
-          isSessionConfigured.current = false;
-        };
+      ws.onclose = (event) => {
+        console.log(
+          `❌ WebSocket closed - Code: ${event.code}, Reason: ${event.reason || "No reason"}`,
+        );
+        if (handoverRef.current === ws) handoverRef.current = null;
+        // Closed on purpose, or replaced by a refreshed connection
+        if (wsRef.current !== ws) return;
 
-        wsRef.current = ws;
+        wsRef.current = null;
+        isSessionConfigured.current = false;
+        if (wasLiveRef.current) {
+          resumeRef.current(false);
+        } else {
+          fail(`Couldn't connect to the realtime API (code ${event.code})`);
+        }
+      };
+    },
+    [
+      fail,
+      onMessage,
+      addDebugLog,
+      recordTranscript,
+      notifyToolResult,
+      configureSession,
+      sendInitialGreeting,
+      scheduleRefresh,
+      activity,
+    ],
+  );
+
+  /**
+   * Pick the current session back up on a new connection, with a fresh token and a
+   * recap of the conversation so far. With `handover` the live connection carries on
+   * until the new one is ready; otherwise the connection has dropped.
+   */
+  const resume = useCallback(
+    async (handover: boolean) => {
+      const info = sessionInfoRef.current;
+      const config = sessionConfigRef.current;
+      if (!info || !config || resumingRef.current) return;
+      // Disconnected, or a newer session took over, while waiting
+      const cancelled = () => sessionInfoRef.current?.sessionId !== info.sessionId;
+
+      let attempt = 0;
+      if (!handover) {
+        attempt = ++reconnectAttemptsRef.current;
+        if (attempt > MAX_RECONNECT_ATTEMPTS) {
+          fail("Lost the connection and couldn't get it back. Press Start to try again.");
+          return;
+        }
+        dispatchConnection({ type: "dropped", attempt });
+      }
+
+      resumingRef.current = true;
+      refreshDueRef.current = false;
+      console.log(
+        handover
+          ? "🔁 Token expiring soon, refreshing session..."
+          : `🔁 Connection lost, reconnecting (attempt ${attempt} of ${MAX_RECONNECT_ATTEMPTS})...`,
+      );
+
+      let retry = false;
+      try {
+        if (!handover) {
+          await sleep(reconnectDelay(attempt));
+          // Retrying while offline would only use up the attempts
+          while (!navigator.onLine && !cancelled()) {
+            await sleep(OFFLINE_POLL_MS);
+          }
+        }
+        if (cancelled()) return;
+
+        // So the server's recap includes the latest turns
+        await transcriptRecorder.flush();
+
+        const params = new URLSearchParams();
+        if (info.mode === "relay") params.set("mode", "relay");
+        const data = await requestSession(
+          `/session/${encodeURIComponent(info.sessionId)}/refresh`,
+          params,
+        );
+
+        if (cancelled()) return;
+
+        applySession(data, config.sampleRate);
+        if (!handover) transcriptRecorder.reset();
+        openSocket(data, handover);
+      } catch (error) {
+        console.error("❌ Failed to resume session:", error);
+        if (handover || cancelled()) return;
+
+        // The server won't take the session back, e.g. it has expired
+        if (error instanceof SessionRequestError && error.status < 500 && error.status !== 429) {
+          fail(error.message);
+        } else {
+          retry = true;
+        }
+      } finally {
+        resumingRef.current = false;
+      }
+
+      if (retry) resumeRef.current(false);
+    },
+    [applySession, openSocket, transcriptRecorder, fail],
+  );
+
+  useEffect(() => {
+    resumeRef.current = resume;
+  }, [resume]);
+
+  const sessionInUse = () =>
+    connectingRef.current || wsRef.current !== null || sessionInfoRef.current !== null;
+
+  const connect = useCallback(
+    async (sampleRate: number, agent?: string, topic?: string, options: ConnectOptions = {}) => {
+      // A second session would take over the refs and leave the first one streaming
+      if (sessionInUse()) {
+        console.warn("⚠️ Already connected; disconnect before starting another session");
+        return;
+      }
+      connectingRef.current = true;
+      dispatchConnection({ type: "connect" });
+      connectOptionsRef.current = { ...DEFAULT_CONNECT_OPTIONS, ...options };
+      try {
+        const params = new URLSearchParams();
+        if (agent) params.set("agent", agent);
+        if (topic) params.set("topic", topic);
+        if (REALTIME_MODE === "relay") params.set("mode", "relay");
+        console.log(
+          `📝 Getting ${REALTIME_MODE} session${agent ? ` for agent: ${agent}` : ""}${topic ? ` (topic: ${topic})` : ""}...`,
+        );
+
+        // Get a session (and, in direct mode, an ephemeral token) from the backend
+        const data = await requestSession("/session", params);
+
+        // Store session config and the server-issued session ID for later use
+        applySession(data, sampleRate);
+        console.log(`🛠️ Tools configured:`, data.tools?.length || 0, "tools");
+        console.log(`📋 Session ID: ${data.session_id}, Agent: ${sessionInfoRef.current?.agent}`);
+
+        reconnectAttemptsRef.current = 0;
+        wasLiveRef.current = false;
+        bufferedAudioRef.current = [];
+        transcriptRecorder.reset();
+
+        // Get provider info from health check
+        try {
+          const healthResponse = await apiFetch("/health");
+          if (healthResponse.ok) {
+            const healthData = await healthResponse.json();
+            setProvider(healthData.provider || "XAI");
+          }
+        } catch {
+          setProvider("XAI");
+        }
+
+        openSocket(data);
       } catch (error) {
         console.error("❌ Failed to connect:", error);
+        teardown();
+        dispatchConnection({
+          type: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
         throw error;
+      } finally {
+        connectingRef.current = false;
       }
     },
-    [onMessage, addDebugLog, configureSession, sendInitialGreeting],
+    [applySession, openSocket, teardown, transcriptRecorder],
   );
 
   const disconnect = useCallback(() => {
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-    }
-    setIsConnected(false);
-    isSessionConfigured.current = false;
-  }, []);
+    teardown();
+    dispatchConnection({ type: "disconnect" });
+  }, [teardown]);
 
   const sendMessage = useCallback(
     (message: Message) => {
+      // Hold the microphone's audio back while a dropped connection is being restored
+      const config = sessionConfigRef.current;
+      if (
+        message.type === "input_audio_buffer.append" &&
+        wasLiveRef.current &&
+        sessionInfoRef.current &&
+        config &&
+        !isSessionConfigured.current
+      ) {
+        const buffered = bufferedAudioRef.current;
+        buffered.push({
+          audio: message.audio,
+          durationMs: pcm16DurationMs(message.audio, config.sampleRate),
+        });
+        let total = buffered.reduce((sum, chunk) => sum + chunk.durationMs, 0);
+        while (total > MAX_BUFFERED_AUDIO_MS) {
+          total -= buffered.shift()!.durationMs;
+        }
+        return;
+      }
+
       if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
         // Drop audio messages until session is configured
         if (message.type === "input_audio_buffer.append" && !isSessionConfigured.current) {
@@ -440,28 +820,32 @@ export function useWebSocket(onMessage: (message: Message) => void): UseWebSocke
     [addDebugLog],
   );
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-    };
-  }, []);
+  /**
+   * Send the user's typed message and ask for a reply
+   */
+  const sendText = useCallback(
+    (text: string) => {
+      const sessionId = sessionInfoRef.current?.sessionId;
+      if (!sessionId || !isSessionConfigured.current) return;
+
+      sendMessage(userTextMessage(text));
+      sendMessage({ type: "response.create" });
+      transcriptRecorder.typed(sessionId, text);
+    },
+    [sendMessage, transcriptRecorder],
+  );
 
-  const clearPendingAgentSwitch = useCallback(() => {
-    setPendingAgentSwitch(null);
-  }, []);
+  // Cleanup on unmount
+  useEffect(() => disconnect, [disconnect]);
 
   return {
-    isConnected,
+    connection,
     connect,
     disconnect,
     sendMessage,
+    sendText,
     debugLogs,
     clearLogs,
     provider,
-    pendingAgentSwitch,
-    clearPendingAgentSwitch,
   };
 }
@@ -113,4 +113,6 @@ export interface TranscriptEntry {
   timestamp: string;
   role: "user" | "assistant" | "flashcard";
   content: string;
+  // Output item an assistant entry transcribes, so it can be trimmed if interrupted
+  itemId?: string;
 }
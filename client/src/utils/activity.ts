@@ -0,0 +1,51 @@
+/**
+ * Tracking whether a realtime conversation is between turns
+ */
+
+import type { Message } from "../types/messages";
+
+/**
+ * Follow realtime events to tell when nobody is speaking, no response is being
+ * generated and no tool call is waiting for its result, so the connection can be
+ * swapped without cutting anyone off.
+ */
+export function createActivityTracker() {
+  let speaking = false;
+  let responding = false;
+  let toolCalls = 0;
+
+  return {
+    observe(message: Message) {
+      switch (message.type) {
+        case "input_audio_buffer.speech_started":
+          speaking = true;
+          break;
+        case "input_audio_buffer.speech_stopped":
+          speaking = false;
+          break;
+        case "response.created":
+          responding = true;
+          break;
+        case "response.done":
+          responding = false;
+          break;
+        case "response.function_call_arguments.done":
+          toolCalls += 1;
+          break;
+      }
+    },
+    // A tool call's result went back with a request for the next response
+    toolAnswered() {
+      toolCalls = Math.max(0, toolCalls - 1);
+      responding = true;
+    },
+    isIdle() {
+      return !speaking && !responding && toolCalls === 0;
+    },
+    reset() {
+      speaking = false;
+      responding = false;
+      toolCalls = 0;
+    },
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Backend API helpers - base URL and authenticated fetch
+ */
+
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:8000";
+
+const AUTH_TOKEN_KEY = "groklearn.authToken";
+
+/**
+ * Event dispatched on window when the server rejects the stored token
+ */
+export const AUTH_EXPIRED_EVENT = "groklearn:auth-expired";
+
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+export function getAuthToken(): string | null {
+  return localStorage.getItem(AUTH_TOKEN_KEY);
+}
+
+export function setAuthToken(token: string | null) {
+  if (token) {
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+  }
+}
+
+/**
+ * fetch() against the backend with the user's bearer token attached
+ */
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const token = getAuthToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+
+  const response = await fetch(`${API_BASE_URL}${path}`, { ...init, headers });
+
+  if (response.status === 401 && token) {
+    setAuthToken(null);
+    window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+  }
+
+  return response;
+}
+
+/**
+ * Turn a failed response's `{ error, details }` body into a readable message
+ */
+export async function readApiError(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    if (Array.isArray(data.details)) {
+      const fields = data.details
+        .map((d: { field: string; message: string }) => `${d.field} ${d.message}`)
+        .join(", ");
+      return `${data.error}: ${fields}`;
+    }
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
@@ -1,8 +1,53 @@
 /**
  * Audio utilities for PCM16 conversion
  * Used for Web Audio API capture and playback
+ *
+ * The capture worklet imports these too, so they stick to plain JavaScript: the
+ * AudioWorkletGlobalScope has no DOM APIs such as btoa.
  */
 
+/**
+ * Name the capture worklet registers its processor under
+ */
+export const CAPTURE_PROCESSOR_NAME = "pcm16-capture";
+
+/**
+ * Root mean square of a block of samples, used as the microphone level
+ */
+export function audioLevel(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+}
+
+/**
+ * Collect blocks of samples of any size into chunks of exactly `chunkSamples`
+ */
+export function createChunker(chunkSamples: number, onChunk: (chunk: Float32Array) => void) {
+  let chunk = new Float32Array(chunkSamples);
+  let filled = 0;
+
+  return {
+    push(samples: Float32Array) {
+      let offset = 0;
+      while (offset < samples.length) {
+        const count = Math.min(chunkSamples - filled, samples.length - offset);
+        chunk.set(samples.subarray(offset, offset + count), filled);
+        filled += count;
+        offset += count;
+
+        if (filled === chunkSamples) {
+          onChunk(chunk);
+          chunk = new Float32Array(chunkSamples);
+          filled = 0;
+        }
+      }
+    },
+  };
+}
+
 /**
  * Convert Float32Array to PCM16 and base64 encode
  */
@@ -33,13 +78,66 @@ export function base64PCM16ToFloat32(base64: string): Float32Array {
 }
 
 /**
- * Convert ArrayBuffer to base64
+ * Length of a base64 PCM16 chunk in milliseconds
+ */
+export function pcm16DurationMs(base64Audio: string, sampleRate: number): number {
+  return ((base64Audio.length * 3) / 4 / 2 / sampleRate) * 1000;
+}
+
+/**
+ * Convert a stream of chunks from one sample rate to another by linear interpolation.
+ * The resampler carries its position over from chunk to chunk, so consecutive chunks
+ * join up without clicks at the seams.
+ */
+export function createResampler(fromRate: number, toRate: number) {
+  const step = fromRate / toRate;
+  // Last sample of the previous chunk, which sits just before the current one
+  let previous = 0;
+  // Where the next output sample falls, in input samples after `previous`
+  let position = 1;
+
+  return (input: Float32Array): Float32Array => {
+    const count = position > input.length ? 0 : Math.floor((input.length - position) / step) + 1;
+    const output = new Float32Array(count);
+    const sampleAt = (index: number) => (index === 0 ? previous : input[index - 1]);
+
+    for (let i = 0; i < count; i++) {
+      const t = position + i * step;
+      const index = Math.floor(t);
+      const next = index < input.length ? sampleAt(index + 1) : sampleAt(index);
+      output[i] = sampleAt(index) + (next - sampleAt(index)) * (t - index);
+    }
+
+    position += count * step - input.length;
+    if (input.length > 0) previous = input[input.length - 1];
+    return output;
+  };
+}
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Convert ArrayBuffer to base64, without btoa so it also runs in the worklet
  */
 function arrayBufferToBase64(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer);
-  let binary = "";
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  const digit = (n: number) => BASE64_ALPHABET[n & 63];
+  let base64 = "";
+  let i = 0;
+
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    base64 += digit(n >> 18) + digit(n >> 12) + digit(n >> 6) + digit(n);
   }
-  return btoa(binary);
+
+  const remaining = bytes.length - i;
+  if (remaining === 1) {
+    const n = bytes[i] << 16;
+    base64 += digit(n >> 18) + digit(n >> 12) + "==";
+  } else if (remaining === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    base64 += digit(n >> 18) + digit(n >> 12) + digit(n >> 6) + "=";
+  }
+
+  return base64;
 }
@@ -0,0 +1,83 @@
+/**
+ * Realtime connection lifecycle, shared by useWebSocket and useWebRTC
+ *
+ *   idle → connecting → configuring → live ⇄ reconnecting
+ *
+ * Any state but idle can end up failed, and disconnecting always returns to idle. A
+ * connection that never became live fails instead of reconnecting, so problems like a
+ * bad configuration surface right away rather than being retried.
+ */
+
+export type ConnectionStatus =
+  "idle" | "connecting" | "configuring" | "live" | "reconnecting" | "failed";
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  // Why the connection failed, in words for the user
+  error: string | null;
+  // Reconnection attempts since the connection was last live
+  attempt: number;
+}
+
+export type ConnectionEvent =
+  | { type: "connect" }
+  | { type: "opened" }
+  | { type: "configured" }
+  | { type: "dropped"; attempt: number }
+  | { type: "failed"; error: string }
+  | { type: "disconnect" };
+
+export const IDLE_CONNECTION: ConnectionState = { status: "idle", error: null, attempt: 0 };
+
+export const CONNECTION_LABELS: Record<ConnectionStatus, string> = {
+  idle: "Disconnected",
+  connecting: "Connecting",
+  configuring: "Setting up",
+  live: "Connected",
+  reconnecting: "Reconnecting",
+  failed: "Connection failed",
+};
+
+/**
+ * Whether a conversation is under way or being set up, i.e. it can be stopped
+ */
+export function isConnectionActive(status: ConnectionStatus): boolean {
+  return status !== "idle" && status !== "failed";
+}
+
+/**
+ * Move the connection along; events that don't apply in the current state are ignored
+ */
+export function connectionReducer(state: ConnectionState, event: ConnectionEvent): ConnectionState {
+  switch (event.type) {
+    case "connect":
+      return isConnectionActive(state.status)
+        ? state
+        : { ...IDLE_CONNECTION, status: "connecting" };
+    case "opened":
+      return state.status === "connecting" ? { ...state, status: "configuring" } : state;
+    case "configured":
+      return isConnectionActive(state.status) ? { status: "live", error: null, attempt: 0 } : state;
+    case "dropped":
+      return state.status === "live" || state.status === "reconnecting"
+        ? { ...state, status: "reconnecting", attempt: event.attempt }
+        : state;
+    case "failed":
+      return state.status === "idle" ? state : { ...state, status: "failed", error: event.error };
+    case "disconnect":
+      return IDLE_CONNECTION;
+  }
+}
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15_000;
+
+/**
+ * How long to wait before a reconnection attempt: the first goes straight away, later
+ * ones back off exponentially with some jitter so clients don't retry in lockstep
+ */
+export function reconnectDelay(attempt: number): number {
+  if (attempt <= 1) return 0;
+  const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 2), RECONNECT_MAX_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
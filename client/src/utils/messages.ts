@@ -0,0 +1,19 @@
+/**
+ * Realtime events the client sends
+ */
+
+import type { Message } from "../types/messages";
+
+/**
+ * Add a text message from the user to the conversation
+ */
+export function userTextMessage(text: string): Message {
+  return {
+    type: "conversation.item.create",
+    item: {
+      type: "message",
+      role: "user",
+      content: [{ type: "input_text", text }],
+    },
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Scheduled playback of streamed audio
+ *
+ * Chunks are queued back to back on the audio clock rather than started one after
+ * another from `onended`, so there are no gaps between them however busy the main
+ * thread is. When playback runs dry it restarts a little ahead of the clock, which
+ * gives the next chunks time to arrive before the first one has finished.
+ */
+
+import { createResampler } from "./audio";
+
+// How far ahead of the audio clock playback restarts after running dry
+const JITTER_BUFFER_MS = 80;
+
+export interface PlaybackPosition {
+  // Output item the audio belongs to, if the provider said
+  itemId: string | null;
+  // How much of the item has been heard, in milliseconds of the provider's audio
+  playedMs: number;
+}
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  itemId: string | null;
+  // When the chunk plays, on the audio clock
+  startTime: number;
+  endTime: number;
+  // Where the chunk sits within its item, in milliseconds
+  offsetMs: number;
+  durationMs: number;
+}
+
+/**
+ * Play PCM chunks through `audioContext`, resampling them to its rate when needed
+ */
+export function createPlaybackScheduler(audioContext: AudioContext) {
+  let scheduled: ScheduledChunk[] = [];
+  // Audio clock time the last queued chunk ends at
+  let nextStartTime = 0;
+  // Position at the end of the last chunk that has already been heard
+  let finished: PlaybackPosition | null = null;
+  // Item the last chunk was queued for, and how much of it is queued
+  let currentItemId: string | null = null;
+  let queuedMs = 0;
+  let resampler: { fromRate: number; resample: (input: Float32Array) => Float32Array } | null =
+    null;
+
+  // Scheduled audio reaches the speakers this much later than the clock says
+  const heardTime = () =>
+    audioContext.currentTime - (audioContext.outputLatency ?? 0) - (audioContext.baseLatency ?? 0);
+
+  const resample = (samples: Float32Array, sampleRate: number) => {
+    if (sampleRate === audioContext.sampleRate) return samples;
+    if (resampler?.fromRate !== sampleRate) {
+      resampler = {
+        fromRate: sampleRate,
+        resample: createResampler(sampleRate, audioContext.sampleRate),
+      };
+    }
+    return resampler.resample(samples);
+  };
+
+  // How far playback has got, as heard by the user; null before anything played
+  const position = (): PlaybackPosition | null => {
+    const heard = heardTime();
+    // Chunks that have been heard in full only matter for where they ended
+    while (scheduled.length > 0 && scheduled[0].endTime <= heard) {
+      const chunk = scheduled.shift()!;
+      finished = { itemId: chunk.itemId, playedMs: chunk.offsetMs + chunk.durationMs };
+    }
+
+    const playing = scheduled[0];
+    if (!playing || playing.startTime > heard) return finished;
+    const progress = (heard - playing.startTime) / (playing.endTime - playing.startTime);
+    return { itemId: playing.itemId, playedMs: playing.offsetMs + progress * playing.durationMs };
+  };
+
+  return {
+    /**
+     * Queue a chunk to play straight after everything queued before it
+     */
+    enqueue(samples: Float32Array, sampleRate: number, itemId: string | null = null) {
+      const data = resample(samples, sampleRate);
+      if (data.length === 0) return;
+
+      const buffer = audioContext.createBuffer(1, data.length, audioContext.sampleRate);
+      buffer.getChannelData(0).set(data);
+      const source = audioContext.createBufferSource();
+      source.buffer = buffer;
+      source.connect(audioContext.destination);
+      source.onended = () => source.disconnect();
+
+      const now = audioContext.currentTime;
+      const startTime = nextStartTime > now ? nextStartTime : now + JITTER_BUFFER_MS / 1000;
+      source.start(startTime);
+      nextStartTime = startTime + buffer.duration;
+
+      if (itemId !== currentItemId) {
+        currentItemId = itemId;
+        queuedMs = 0;
+      }
+      const durationMs = (samples.length / sampleRate) * 1000;
+      scheduled.push({
+        source,
+        itemId,
+        startTime,
+        endTime: nextStartTime,
+        offsetMs: queuedMs,
+        durationMs,
+      });
+      queuedMs += durationMs;
+    },
+
+    position,
+
+    /**
+     * Whether any queued audio is still to be heard
+     */
+    isPlaying(): boolean {
+      return nextStartTime > heardTime();
+    },
+
+    /**
+     * Cut playback off, returning the position it got to
+     */
+    stop(): PlaybackPosition | null {
+      const stoppedAt = position();
+      for (const { source } of scheduled) {
+        try {
+          source.stop();
+          source.disconnect();
+        } catch {
+          // Already stopped
+        }
+      }
+
+      scheduled = [];
+      nextStartTime = 0;
+      finished = null;
+      currentItemId = null;
+      queuedMs = 0;
+      resampler = null;
+      return stoppedAt;
+    },
+  };
+}
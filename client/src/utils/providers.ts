@@ -0,0 +1,35 @@
+/**
+ * Realtime providers the client can connect to directly
+ *
+ * The server picks the provider and reports it with each session; this maps it to how
+ * a browser authenticates its WebSocket with that provider.
+ */
+
+export interface ProviderInfo {
+  name: string;
+  realtime_url: string;
+}
+
+type ProviderConnector = (url: string, clientSecret: string) => WebSocket;
+
+// Browsers can't set headers on WebSockets, so the key rides in a subprotocol
+const connectWithKeySubprotocol: ProviderConnector = (url, clientSecret) =>
+  new WebSocket(url, [
+    "realtime",
+    `openai-insecure-api-key.${clientSecret}`,
+    "openai-beta.realtime-v1",
+  ]);
+
+const PROVIDER_CONNECTORS: Record<string, ProviderConnector> = {
+  xai: connectWithKeySubprotocol,
+  // The server's offline mock doesn't check the secret
+  mock: (url) => new WebSocket(url),
+};
+
+/**
+ * Open a direct connection to the session's provider with an ephemeral client secret
+ */
+export function connectToProvider(provider: ProviderInfo, clientSecret: string): WebSocket {
+  const connect = PROVIDER_CONNECTORS[provider.name] ?? connectWithKeySubprotocol;
+  return connect(provider.realtime_url, clientSecret);
+}
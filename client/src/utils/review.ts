@@ -0,0 +1,101 @@
+/**
+ * Flashcard review over REST
+ *
+ * Runs the review agent's own tools, get_random_flashcard and validate_answer, for an
+ * offline session, so reviewing on screen serves cards from the same queue and records
+ * the same attempts as reviewing by voice, without a realtime connection.
+ */
+
+import { apiFetch, readApiError } from "./api";
+
+export const REVIEW_GRADES = ["again", "hard", "good", "easy"] as const;
+
+export type ReviewGrade = (typeof REVIEW_GRADES)[number];
+
+export const REVIEW_GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: "Again",
+  hard: "Hard",
+  good: "Good",
+  easy: "Easy",
+};
+
+export interface ReviewProgress {
+  reviewed: number;
+  // Served, then moved on from without a grade
+  skipped: number;
+  total: number;
+  remaining: number;
+}
+
+/**
+ * What get_random_flashcard returns: the next due card, or why there isn't one
+ */
+export interface ServedFlashcard {
+  found: boolean;
+  question?: string;
+  answer?: string;
+  topic?: string;
+  progress?: ReviewProgress;
+  message?: string;
+  nextDueAt?: string;
+}
+
+/**
+ * What validate_answer returns once a grade is recorded
+ */
+export interface GradedFlashcard {
+  recorded: boolean;
+  grade?: ReviewGrade;
+  isCorrect?: boolean;
+  nextReviewInDays?: number;
+  progress?: ReviewProgress | null;
+  error?: string;
+}
+
+async function runReviewTool<T>(
+  sessionId: string,
+  toolName: string,
+  args: Record<string, unknown>,
+): Promise<T> {
+  const response = await apiFetch("/tools/execute", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ toolName, args, sessionId }),
+  });
+  if (!response.ok) throw new Error(await readApiError(response, `Failed to run ${toolName}`));
+  const data = await response.json();
+  return data.result;
+}
+
+/**
+ * Start a review sitting that never connects to the realtime API
+ */
+export async function startReviewSession(): Promise<string> {
+  const response = await apiFetch("/session?agent=review&mode=offline", { method: "POST" });
+  if (!response.ok) throw new Error(await readApiError(response, "Failed to start review"));
+  const data = await response.json();
+  return data.session_id;
+}
+
+export function fetchNextFlashcard(sessionId: string): Promise<ServedFlashcard> {
+  return runReviewTool(sessionId, "get_random_flashcard", {});
+}
+
+/**
+ * Grade the card the session served last
+ */
+export async function gradeFlashcard(
+  sessionId: string,
+  grade: ReviewGrade,
+): Promise<GradedFlashcard> {
+  const result = await runReviewTool<GradedFlashcard>(sessionId, "validate_answer", { grade });
+  if (!result.recorded) throw new Error(result.error ?? "Failed to record the grade");
+  return result;
+}
+
+/**
+ * A typed message asking the review agent to record the user's own grade
+ */
+export function selfGradeMessage(grade: ReviewGrade): string {
+  return `I'd grade myself "${grade}" on that one. Please record that grade and move on to the next card.`;
+}
@@ -0,0 +1,102 @@
+/**
+ * Working out how much of the model's reply the user actually heard
+ *
+ * The transcript of a reply usually streams in ahead of its audio, so when the user
+ * interrupts, the text received so far includes words that were never played. By
+ * noting how much text had arrived as each audio chunk came in, a truncation at some
+ * point in the audio maps back to the words spoken up to then.
+ */
+
+import type { Message } from "../types/messages";
+import { pcm16DurationMs } from "./audio";
+
+// Replies older than this many are forgotten
+const MAX_TRACKED_ITEMS = 8;
+
+interface SpokenItem {
+  text: string;
+  // Audio received so far, in milliseconds
+  audioMs: number;
+  // Length of the text that had arrived when each audio chunk ended
+  marks: { audioMs: number; textLength: number }[];
+  // Where the audio was truncated, once it has been
+  truncatedAtMs: number | null;
+}
+
+/**
+ * Follow the model's output items from realtime events, and the truncations the server
+ * confirms, to tell what each reply said as far as the user heard it
+ */
+export function createSpokenTextTracker() {
+  const items = new Map<string, SpokenItem>();
+  let outputRate: number | null = null;
+
+  const itemFor = (itemId: string) => {
+    let item = items.get(itemId);
+    if (!item) {
+      item = { text: "", audioMs: 0, marks: [], truncatedAtMs: null };
+      items.set(itemId, item);
+      if (items.size > MAX_TRACKED_ITEMS) items.delete(items.keys().next().value!);
+    }
+    return item;
+  };
+
+  return {
+    observe(message: Message) {
+      switch (message.type) {
+        case "session.updated":
+          outputRate = message.session?.audio?.output?.format?.rate ?? outputRate;
+          break;
+        case "response.output_audio_transcript.delta":
+        case "response.output_text.delta": {
+          const item = itemFor(message.item_id);
+          if (item.truncatedAtMs === null) item.text += message.delta as string;
+          break;
+        }
+        case "response.output_audio.delta": {
+          const item = itemFor(message.item_id);
+          if (item.truncatedAtMs !== null || !outputRate) break;
+          item.audioMs += pcm16DurationMs(message.delta as string, outputRate);
+          item.marks.push({ audioMs: item.audioMs, textLength: item.text.length });
+          break;
+        }
+        // Over WebRTC the server keeps the audio for the call and says how long it was
+        case "output_audio.queued": {
+          const item = itemFor(message.item_id);
+          if (item.truncatedAtMs !== null) break;
+          item.audioMs += message.duration_ms as number;
+          item.marks.push({ audioMs: item.audioMs, textLength: item.text.length });
+          break;
+        }
+        case "conversation.item.truncated":
+          itemFor(message.item_id).truncatedAtMs = message.audio_end_ms ?? 0;
+          break;
+      }
+    },
+    // Audio received for the item so far, in milliseconds
+    audioMs(itemId: string): number {
+      return items.get(itemId)?.audioMs ?? 0;
+    },
+    isTruncated(itemId: string): boolean {
+      return (items.get(itemId)?.truncatedAtMs ?? null) !== null;
+    },
+    /**
+     * The item's text, cut back to the words whose audio played in full if it was truncated
+     */
+    spokenText(itemId: string): string {
+      const item = items.get(itemId);
+      if (!item) return "";
+      if (item.truncatedAtMs === null) return item.text;
+
+      let length = 0;
+      for (const mark of item.marks) {
+        if (mark.audioMs > item.truncatedAtMs) break;
+        length = mark.textLength;
+      }
+      return item.text.slice(0, length).trim();
+    },
+    reset() {
+      items.clear();
+    },
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Saving conversation turns to the server-side session transcript
+ */
+
+import type { Message } from "../types/messages";
+import { apiFetch } from "./api";
+import { createSpokenTextTracker } from "./spoken";
+
+export interface TranscriptTurn {
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string;
+}
+
+/**
+ * Append turns to a session's stored transcript. Failures are logged rather than
+ * thrown so a flaky save never interrupts the conversation.
+ */
+export async function saveTranscriptTurns(sessionId: string, turns: TranscriptTurn[]) {
+  try {
+    const response = await apiFetch(`/sessions/${encodeURIComponent(sessionId)}/transcript`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ entries: turns }),
+    });
+    if (!response.ok) {
+      console.error(`❌ Failed to save transcript: ${response.status}`);
+    }
+  } catch (error) {
+    console.error("❌ Failed to save transcript:", error);
+  }
+}
+
+/**
+ * Collect finished user and assistant turns from realtime events and save them to the
+ * session's transcript. Tool calls and created flashcards are recorded by the server.
+ *
+ * The model's replies usually play on well after they finish generating, so a reply is
+ * only saved once the conversation moves on past it. If the user interrupts it first,
+ * only the part they heard is saved.
+ */
+export function createTranscriptRecorder() {
+  const heard = createSpokenTextTracker();
+  // Assistant turns not saved yet, by item
+  const assistantTurns = new Map<
+    string,
+    { sessionId: string; timestamp: string; finished: boolean }
+  >();
+  const saving = new Set<Promise<void>>();
+
+  const save = (sessionId: string, turns: TranscriptTurn[]) => {
+    const saved = saveTranscriptTurns(sessionId, turns);
+    saving.add(saved);
+    saved.finally(() => saving.delete(saved));
+  };
+
+  const saveAssistantTurn = (itemId: string) => {
+    const turn = assistantTurns.get(itemId);
+    if (!turn) return;
+    assistantTurns.delete(itemId);
+    const content = heard.spokenText(itemId);
+    if (content.trim()) {
+      save(turn.sessionId, [{ role: "assistant", content, timestamp: turn.timestamp }]);
+    }
+  };
+
+  // Save the replies that have finished generating
+  const settle = () => {
+    for (const [itemId, turn] of assistantTurns) {
+      if (turn.finished) saveAssistantTurn(itemId);
+    }
+  };
+
+  return {
+    record(sessionId: string, message: Message) {
+      heard.observe(message);
+
+      if (
+        message.type === "response.output_audio_transcript.delta" ||
+        message.type === "response.output_text.delta"
+      ) {
+        const itemId = message.item_id as string;
+        if (!assistantTurns.has(itemId) && !heard.isTruncated(itemId)) {
+          assistantTurns.set(itemId, {
+            sessionId,
+            timestamp: new Date().toISOString(),
+            finished: false,
+          });
+        }
+      }
+
+      if (message.type === "response.done") {
+        for (const turn of assistantTurns.values()) turn.finished = true;
+      }
+
+      // The user cut the reply off; what they heard of it is final
+      if (message.type === "conversation.item.truncated") {
+        saveAssistantTurn(message.item_id);
+      }
+
+      // The conversation has moved on from the replies so far
+      if (
+        message.type === "response.created" ||
+        message.type === "response.function_call_arguments.done"
+      ) {
+        settle();
+      }
+
+      if (message.type === "conversation.item.added" && message.item?.role === "user") {
+        settle();
+        const spoken = (message.item.content ?? []).find(
+          (c: { type: string; transcript?: string }) => c.type === "input_audio" && c.transcript,
+        );
+        if (spoken) {
+          save(sessionId, [
+            {
+              role: "user",
+              content: spoken.transcript,
+              timestamp: new Date().toISOString(),
+            },
+          ]);
+        }
+      }
+    },
+    // A message the user typed, as it's sent
+    typed(sessionId: string, text: string) {
+      settle();
+      save(sessionId, [{ role: "user", content: text, timestamp: new Date().toISOString() }]);
+    },
+    reset() {
+      assistantTurns.clear();
+      heard.reset();
+    },
+    // Save finished replies now, e.g. as the conversation ends
+    settle,
+    // Save finished replies and wait for turns already on their way to the server
+    async flush() {
+      settle();
+      await Promise.all(saving);
+    },
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Turn-taking: deciding when the user has started and finished speaking
+ *
+ * - server_vad: the realtime API listens for speech itself
+ * - client_vad: the microphone level decides, and only speech is sent
+ * - push_to_talk: the user holds a key or button while they speak
+ *
+ * With either of the last two the session's turn detection is off, so the client
+ * commits each turn and asks for the reply itself.
+ */
+
+import type { Message } from "../types/messages";
+import { pcm16DurationMs } from "./audio";
+
+export type TurnMode = "server_vad" | "client_vad" | "push_to_talk";
+
+export interface TurnSettings {
+  mode: TurnMode;
+  // How confident server VAD must be that it hears speech, 0 to 1
+  threshold: number;
+  // Silence that ends a turn, for both VADs, in milliseconds
+  silenceDurationMs: number;
+  // Audio kept from before speech started, for both VADs, in milliseconds
+  prefixPaddingMs: number;
+  // Microphone level (RMS) that client VAD counts as speech
+  clientThreshold: number;
+}
+
+export const TURN_MODE_LABELS: Record<TurnMode, string> = {
+  server_vad: "Automatic (server)",
+  client_vad: "Automatic (this device)",
+  push_to_talk: "Push to talk",
+};
+
+export const DEFAULT_TURN_SETTINGS: TurnSettings = {
+  mode: "server_vad",
+  threshold: 0.5,
+  silenceDurationMs: 500,
+  prefixPaddingMs: 300,
+  clientThreshold: 0.02,
+};
+
+const TURN_SETTINGS_KEY = "groklearn.turnSettings";
+
+// Client VAD needs this much loud audio in a row before it counts as speech, so a
+// cough or a door closing doesn't interrupt the model
+const MIN_SPEECH_MS = 200;
+// The realtime API rejects commits of less audio than this
+const MIN_COMMIT_MS = 100;
+
+export function loadTurnSettings(): TurnSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TURN_SETTINGS_KEY) ?? "null");
+    return { ...DEFAULT_TURN_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_TURN_SETTINGS;
+  }
+}
+
+export function saveTurnSettings(settings: TurnSettings) {
+  localStorage.setItem(TURN_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * The session's `turn_detection`; null turns it off and leaves the turns to the client
+ */
+export function turnDetectionConfig(settings: TurnSettings): Record<string, unknown> | null {
+  if (settings.mode !== "server_vad") return null;
+  return {
+    type: "server_vad",
+    threshold: settings.threshold,
+    silence_duration_ms: settings.silenceDurationMs,
+    prefix_padding_ms: settings.prefixPaddingMs,
+  };
+}
+
+interface TurnHandlers {
+  send: (message: Message) => void;
+  // The user started a turn, so whatever the model is saying should stop
+  onSpeechStart: () => void;
+}
+
+/**
+ * Feed microphone audio to the session according to the turn-taking mode. Under
+ * server VAD everything goes straight through; otherwise audio is only sent during
+ * the user's turns, which this commits as they end.
+ */
+export function createTurnController(
+  settings: TurnSettings,
+  sampleRate: number,
+  { send, onSpeechStart }: TurnHandlers,
+) {
+  let talking = false;
+  // Audio sent during the current turn, in milliseconds
+  let sentMs = 0;
+  // Recent chunks from before speech started, sent with the turn so its start isn't clipped
+  let preroll: { audio: string; durationMs: number }[] = [];
+  let loudMs = 0;
+  let quietMs = 0;
+
+  const append = (audio: string, durationMs: number) => {
+    send({ type: "input_audio_buffer.append", audio });
+    sentMs += durationMs;
+  };
+
+  const startTurn = () => {
+    talking = true;
+    sentMs = 0;
+    quietMs = 0;
+    onSpeechStart();
+    for (const chunk of preroll) append(chunk.audio, chunk.durationMs);
+    preroll = [];
+  };
+
+  const endTurn = () => {
+    talking = false;
+    loudMs = 0;
+    if (sentMs < MIN_COMMIT_MS) {
+      send({ type: "input_audio_buffer.clear" });
+      return;
+    }
+    send({ type: "input_audio_buffer.commit" });
+    send({ type: "response.create" });
+  };
+
+  return {
+    /**
+     * A chunk of microphone audio and its level
+     */
+    audio(audio: string, level: number) {
+      const durationMs = pcm16DurationMs(audio, sampleRate);
+
+      if (settings.mode === "server_vad") {
+        send({ type: "input_audio_buffer.append", audio });
+        return;
+      }
+
+      if (settings.mode === "push_to_talk") {
+        if (talking) append(audio, durationMs);
+        return;
+      }
+
+      const loud = level >= settings.clientThreshold;
+      if (!talking) {
+        preroll.push({ audio, durationMs });
+        let prerollMs = preroll.reduce((sum, chunk) => sum + chunk.durationMs, 0);
+        // Enough for the padding as well as the start of speech that set the VAD off
+        const keepMs = settings.prefixPaddingMs + MIN_SPEECH_MS;
+        while (preroll.length > 1 && prerollMs - preroll[0].durationMs >= keepMs) {
+          prerollMs -= preroll.shift()!.durationMs;
+        }
+
+        loudMs = loud ? loudMs + durationMs : 0;
+        if (loudMs >= MIN_SPEECH_MS) startTurn();
+        return;
+      }
+
+      append(audio, durationMs);
+      quietMs = loud ? 0 : quietMs + durationMs;
+      if (quietMs >= settings.silenceDurationMs) endTurn();
+    },
+
+    /**
+     * Push to talk: the key or button went down
+     */
+    press() {
+      if (settings.mode !== "push_to_talk" || talking) return;
+      // Drop anything left over from before, so the turn is only what's said now
+      send({ type: "input_audio_buffer.clear" });
+      startTurn();
+    },
+
+    /**
+     * Push to talk: the key or button came back up
+     */
+    release() {
+      if (settings.mode !== "push_to_talk" || !talking) return;
+      endTurn();
+    },
+
+    isTalking(): boolean {
+      return talking;
+    },
+  };
+}
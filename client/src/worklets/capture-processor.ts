@@ -0,0 +1,62 @@
+/**
+ * Microphone capture worklet
+ *
+ * Runs on the audio rendering thread, so React re-renders on the main thread can't
+ * hold up capture. Collects the microphone's samples into chunks of
+ * `processorOptions.chunkDurationMs`, then posts each one to the main thread as
+ * `{ audio, level }`: base64 PCM16 ready to send, and its RMS level for the meter.
+ * Post "stop" to the port to let the processor end.
+ */
+
+import {
+  CAPTURE_PROCESSOR_NAME,
+  audioLevel,
+  createChunker,
+  float32ToPCM16Base64,
+} from "../utils/audio";
+
+// Globals of the AudioWorkletGlobalScope, which the DOM typings don't cover
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor,
+): void;
+
+export interface CaptureChunk {
+  audio: string;
+  level: number;
+}
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  private chunker: ReturnType<typeof createChunker>;
+  private stopped = false;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { chunkDurationMs } = options.processorOptions as { chunkDurationMs: number };
+
+    this.chunker = createChunker(Math.round((sampleRate * chunkDurationMs) / 1000), (chunk) => {
+      const message: CaptureChunk = {
+        audio: float32ToPCM16Base64(chunk),
+        level: audioLevel(chunk),
+      };
+      this.port.postMessage(message);
+    });
+    this.port.onmessage = (event) => {
+      if (event.data === "stop") this.stopped = true;
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    // Mono capture; the input is empty until the microphone delivers audio
+    const samples = inputs[0]?.[0];
+    if (samples) this.chunker.push(samples);
+    return !this.stopped;
+  }
+}
+
+registerProcessor(CAPTURE_PROCESSOR_NAME, CaptureProcessor);
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+
+// End-to-end tests share one server and its in-memory storage, so files run one at a time
+export default defineConfig({
+  test: {
+    include: ['e2e/**/*.test.ts'],
+    environment: 'jsdom',
+    testTimeout: 20_000,
+    // Importing the server and client compiles them on the fly
+    hookTimeout: 60_000,
+    fileParallelism: false,
+  },
+})
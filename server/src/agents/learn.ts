@@ -2,9 +2,10 @@
  * Learn Agent - helps users explore topics and creates flashcards
  */
 
+import { ObjectId } from "mongodb";
 import type { AgentConfig, AgentLoader, AgentParams } from "./types";
 import { createFlashcardTool } from "../tools";
-import { getDb } from "../db";
+import { getStorage } from "../storage";
 
 const baseInstructions = `You are a friendly and knowledgeable learning assistant that helps users explore topics they're curious about. Your goal is to:
 
@@ -25,21 +26,19 @@ If the user says they want to review, study, or practice their flashcards, use t
 
 Be encouraging and curious. Help the user build lasting knowledge through engaging conversation.`;
 
-export const loadLearnAgent: AgentLoader = async (params?: AgentParams): Promise<AgentConfig> => {
+export const loadLearnAgent: AgentLoader = async (params: AgentParams): Promise<AgentConfig> => {
   let instructions = baseInstructions;
-  const topic = params?.topic;
+  const { topic, userId } = params;
 
   if (topic) {
     instructions += `\n\nThe user wants to continue learning about: ${topic}`;
 
     // Load recent flashcards from this topic to help continue from where they left off
-    const db = await getDb();
-    const recentFlashcards = await db
-      .collection("flashcards")
-      .find({ topic })
-      .sort({ createdAt: -1 })
-      .limit(3)
-      .toArray();
+    const recentFlashcards = await getStorage().flashcards.find(new ObjectId(userId), {
+      topic,
+      sort: { field: "createdAt", direction: -1 },
+      limit: 3,
+    });
 
     if (recentFlashcards.length > 0) {
       const recentSummary = recentFlashcards.map((fc) => `- "${fc.question}"`).join("\n");
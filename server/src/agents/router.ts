@@ -6,6 +6,9 @@ import type { AgentConfig, AgentName, AgentLoader, AgentParams, ToolDefinition }
 import { loadStarterAgent } from "./starter";
 import { loadLearnAgent } from "./learn";
 import { loadReviewAgent } from "./review";
+import { switchSessionAgent } from "../sessions";
+import type { SessionRecord } from "../sessions";
+import { summarizeTranscript } from "../transcripts";
 
 /**
  * Tool that allows switching between agents
@@ -42,13 +45,70 @@ export const agentRouterTool: ToolDefinition = {
       reason: string;
       topic?: string;
     };
+    if (!isValidAgent(agent)) {
+      return { switched: false, error: `Unknown agent: ${agent}` };
+    }
+
     console.log(
       `[${context.sessionId}] 🔄 Switching to ${agent} agent: ${reason}${topic ? ` (topic: ${topic})` : ""}`,
     );
-    return { switched: true, agent, reason, topic };
+
+    // The client applies the new instructions and tools to the live connection, so
+    // the conversation carries on without reconnecting
+    const [config, summary] = await Promise.all([
+      getAgentConfig(agent, { userId: context.userId, topic }),
+      summarizeTranscript(context.sessionId, context.userId),
+    ]);
+    await switchSessionAgent(context.sessionId, context.userId, agent, topic);
+
+    return {
+      switched: true,
+      agent,
+      reason,
+      topic,
+      instructions: withHandoff(config.instructions, reason, summary),
+      tools: config.tools,
+    };
   },
 };
 
+/**
+ * Append what happened before the switch to the new agent's instructions
+ */
+function withHandoff(instructions: string, reason: string, summary: string): string {
+  const handoff = [
+    "You are taking over an ongoing conversation from another mode. Don't greet the user again or reintroduce yourself; continue naturally from where the conversation left off.",
+    `Reason for the switch: ${reason}`,
+  ];
+  if (summary) handoff.push(summary);
+  return `${instructions}\n\n## Handoff\n\n${handoff.join("\n\n")}`;
+}
+
+/**
+ * Configuration for picking a session back up on a new connection: its current agent,
+ * told what was said before. `resumed` is false if nothing has been said yet.
+ */
+export async function getResumedAgentConfig(
+  session: SessionRecord,
+  userId: string,
+): Promise<AgentConfig & { resumed: boolean }> {
+  const [config, summary] = await Promise.all([
+    getAgentConfig(session.agent, { userId, topic: session.topic }),
+    summarizeTranscript(session.sessionId, userId),
+  ]);
+  if (!summary) return { ...config, resumed: false };
+
+  const resume = [
+    "The connection to the user dropped and has just been restored. Don't greet the user again or reintroduce yourself; carry on from where the conversation left off.",
+    summary,
+  ];
+  return {
+    ...config,
+    instructions: `${config.instructions}\n\n## Resuming\n\n${resume.join("\n\n")}`,
+    resumed: true,
+  };
+}
+
 const agentLoaders: Record<AgentName, AgentLoader> = {
   starter: loadStarterAgent,
   learn: loadLearnAgent,
@@ -60,7 +120,7 @@ const agentLoaders: Record<AgentName, AgentLoader> = {
  */
 export async function getAgentConfig(
   agentName: AgentName,
-  params?: AgentParams,
+  params: AgentParams,
 ): Promise<AgentConfig> {
   const loader = agentLoaders[agentName];
   const agent = await loader(params);
@@ -73,8 +133,8 @@ export async function getAgentConfig(
 /**
  * Get the default agent (Learn mode)
  */
-export async function getDefaultAgent(): Promise<AgentConfig> {
-  return getAgentConfig("starter");
+export async function getDefaultAgent(params: AgentParams): Promise<AgentConfig> {
+  return getAgentConfig("starter", params);
 }
 
 /**
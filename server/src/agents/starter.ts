@@ -2,8 +2,9 @@
  * Starter Agent - greets users and helps them choose their next action
  */
 
-import type { AgentConfig, AgentLoader } from "./types";
-import { getDb } from "../db";
+import { ObjectId } from "mongodb";
+import type { AgentConfig, AgentLoader, AgentParams } from "./types";
+import { getStorage } from "../storage";
 
 const instructions = `You are a friendly learning assistant that helps users learn and review flashcards.
 
@@ -17,14 +18,15 @@ const formatTopics = (topicList: string[]): string => {
   return `${topicList.slice(0, -1).join(", ")}, and ${topicList[topicList.length - 1]}`;
 };
 
-export const loadStarterAgent: AgentLoader = async (): Promise<AgentConfig> => {
-  const db = await getDb();
+export const loadStarterAgent: AgentLoader = async (params: AgentParams): Promise<AgentConfig> => {
+  const { flashcards } = getStorage();
+  const userId = new ObjectId(params.userId);
 
-  // Get flashcard count for review prompt
-  const flashcardCount = await db.collection("flashcards").countDocuments();
+  // Get count of flashcards due for review
+  const flashcardCount = await flashcards.count(userId, { due: true });
 
   // Get list of topics the user has learned about
-  const topics = await db.collection("flashcards").distinct("topic");
+  const topics = await flashcards.topics(userId);
 
   // Build the greeting message with specific data
   let greeting = 'Say this to me: "Hello! ';
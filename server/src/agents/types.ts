@@ -10,6 +10,7 @@ export interface ToolParameter {
   type: string;
   description: string;
   enum?: string[];
+  items?: { type: string };
 }
 
 export type ToolResult = Record<string, unknown> | string | null;
@@ -41,10 +42,11 @@ export interface AgentConfig {
  * Parameters that can be passed when loading an agent
  */
 export interface AgentParams {
+  userId: string;
   topic?: string;
 }
 
 /**
  * Function that loads an agent config, optionally with async data
  */
-export type AgentLoader = (params?: AgentParams) => Promise<AgentConfig>;
+export type AgentLoader = (params: AgentParams) => Promise<AgentConfig>;
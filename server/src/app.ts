@@ -0,0 +1,421 @@
+/**
+ * XAI Voice Web Backend - Express app
+ *
+ * Provides ephemeral tokens for direct client-to-provider connections. The client
+ * connects directly to the realtime provider (XAI by default, see ./providers) using
+ * the ephemeral token, or, in relay mode, to this server's /realtime WebSocket, which
+ * proxies to the provider. In webrtc mode the client negotiates a peer connection on
+ * /signaling and the server bridges its audio.
+ *
+ * The app is started by index.ts; tests import it directly.
+ */
+
+import express from "express";
+import expressWs from "express-ws";
+import rateLimit from "express-rate-limit";
+import { ObjectId } from "mongodb";
+import { claimLegacyData, getStorage, isLegacyOwner } from "./storage";
+import { createAuthToken, hashPassword, requireAuth, verifyPassword } from "./auth";
+import { createSession, extendSession, findActiveSession } from "./sessions";
+import { runSessionTool } from "./tool-runner";
+import { handleRelayConnection } from "./relay";
+import { handleSignalingConnection } from "./webrtc";
+import { getProvider, handleMockConnection, MOCK_REALTIME_PATH } from "./providers";
+import { flashcardsRouter } from "./routes/flashcards";
+import { decksRouter } from "./routes/decks";
+import { statsRouter } from "./routes/stats";
+import { sessionsRouter } from "./routes/sessions";
+import { getAgentConfig, getDefaultAgent, getResumedAgentConfig, isValidAgent } from "./agents";
+import type { AgentName } from "./agents";
+import type { ClientSecret, ClientSecretResult } from "./providers";
+
+export const { app } = expressWs(express());
+
+// CORS Configuration - Configure for your specific domain in production
+export const ALLOWED_ORIGINS = (
+  process.env.ALLOWED_ORIGINS || "http://localhost:3000,http://localhost:5173,http://localhost:8080"
+).split(",");
+
+// Enable CORS for web clients - restricted to specific origins
+app.use((req, res, next) => {
+  const origin = req.headers.origin;
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    res.header("Access-Control-Allow-Origin", origin);
+  }
+  res.header("Access-Control-Allow-Methods", "GET, POST, PATCH, OPTIONS, DELETE");
+  res.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  res.header("Access-Control-Allow-Credentials", "true");
+
+  if (req.method === "OPTIONS") {
+    return res.sendStatus(200);
+  }
+
+  next();
+});
+
+// Rate limiting
+const limiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100,
+  message: "Too many requests from this IP, please try again later.",
+});
+
+const sessionLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: Number(process.env.SESSION_RATE_LIMIT) || 10,
+  message: "Too many session creation requests, please try again later.",
+});
+
+app.use(limiter);
+
+// Deck imports read the uploaded file as it was sent, so deck import/export is mounted
+// before the JSON body parser, which would otherwise take JSON decks
+app.use("/flashcards", decksRouter);
+
+app.use(express.json());
+
+// Configuration
+export const PROVIDER = getProvider();
+export const VOICE = process.env.VOICE || PROVIDER.voice;
+export const STORAGE = getStorage();
+
+// ========================================
+// REST API Endpoints
+// ========================================
+
+app.get("/", (req, res) => {
+  res.json({
+    service: "XAI Voice Web Backend (Node.js)",
+    provider: PROVIDER.label,
+    storage: STORAGE.label,
+    version: "1.0.0",
+    status: "running",
+    endpoints: {
+      health: "/health",
+      auth: "/auth",
+      session: "/session",
+      realtime: "/realtime",
+      signaling: "/signaling/:sessionId",
+      sessions: "/sessions",
+      flashcards: "/flashcards",
+      stats: "/stats",
+    },
+  });
+});
+
+app.get("/health", (req, res) => {
+  res.json({
+    status: "healthy",
+    provider: PROVIDER.label,
+    storage: STORAGE.label,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// ========================================
+// Authentication Endpoints
+// ========================================
+
+const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20,
+  message: "Too many authentication attempts, please try again later.",
+});
+
+// Create an account and return a bearer token
+app.post("/auth/signup", authLimiter, async (req, res) => {
+  try {
+    const { email, password } = req.body as { email?: unknown; password?: unknown };
+
+    if (typeof email !== "string" || !email.includes("@")) {
+      return res.status(400).json({ error: "A valid email is required" });
+    }
+    if (typeof password !== "string" || password.length < 8) {
+      return res.status(400).json({ error: "Password must be at least 8 characters" });
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const insertedId = await STORAGE.users.create({
+      email: normalizedEmail,
+      passwordHash: hashPassword(password),
+      createdAt: new Date(),
+    });
+
+    if (!insertedId) {
+      return res.status(409).json({ error: "An account with this email already exists" });
+    }
+
+    const userId = insertedId.toString();
+
+    console.log(`👤 Created account: ${normalizedEmail}`);
+    if (isLegacyOwner(normalizedEmail)) await claimLegacyData(STORAGE, insertedId);
+    res.status(201).json({
+      token: createAuthToken(userId),
+      user: { id: userId, email: normalizedEmail },
+    });
+  } catch (error) {
+    console.error("❌ Error signing up:", error);
+    res.status(500).json({
+      error: "Failed to sign up",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Exchange email and password for a bearer token
+app.post("/auth/login", authLimiter, async (req, res) => {
+  try {
+    const { email, password } = req.body as { email?: unknown; password?: unknown };
+
+    if (typeof email !== "string" || typeof password !== "string") {
+      return res.status(400).json({ error: "Email and password are required" });
+    }
+
+    const user = await STORAGE.users.findByEmail(email.trim().toLowerCase());
+
+    if (!user || !verifyPassword(password, user.passwordHash)) {
+      return res.status(401).json({ error: "Invalid email or password" });
+    }
+
+    const userId = user._id.toString();
+    res.json({
+      token: createAuthToken(userId),
+      user: { id: userId, email: user.email },
+    });
+  } catch (error) {
+    console.error("❌ Error logging in:", error);
+    res.status(500).json({
+      error: "Failed to log in",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Get the authenticated user
+app.get("/auth/me", requireAuth, async (req, res) => {
+  try {
+    const user = await STORAGE.users.findById(new ObjectId(res.locals.userId as string));
+
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    res.json({ user: { id: user._id.toString(), email: user.email } });
+  } catch (error) {
+    console.error("❌ Error fetching user:", error);
+    res.status(500).json({
+      error: "Failed to fetch user",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// ========================================
+// Realtime Session Endpoints
+// ========================================
+
+// Offline sessions never connect to the realtime API; their tools are run through
+// /tools/execute, e.g. by the client's flip-card review
+type ConnectionMode = "direct" | "relay" | "webrtc" | "offline";
+
+const CONNECTION_MODES: ConnectionMode[] = ["direct", "relay", "webrtc", "offline"];
+
+function readConnectionMode(query: Record<string, unknown>): ConnectionMode {
+  return CONNECTION_MODES.find((mode) => mode === query.mode) ?? "direct";
+}
+
+/**
+ * Mint an ephemeral token in direct mode; the other modes connect through the server
+ */
+async function createClientSecretFor(mode: ConnectionMode): Promise<ClientSecretResult | null> {
+  if (mode !== "direct") return null;
+  const result = await PROVIDER.createClientSecret();
+  if (!result.ok) {
+    console.error(`❌ Failed to get ephemeral token: ${result.status} ${result.error}`);
+  }
+  return result;
+}
+
+// Session endpoint. In direct mode (the default) it also mints an ephemeral token for
+// the client to connect to XAI; with ?mode=relay the client connects to /realtime, and
+// with ?mode=webrtc to /signaling/:sessionId. With ?mode=offline it doesn't connect at
+// all and only runs the agent's tools.
+app.post("/session", sessionLimiter, requireAuth, async (req, res) => {
+  try {
+    // Get agent, optional topic and connection mode from query params
+    const userId = res.locals.userId as string;
+    const mode = readConnectionMode(req.query);
+    const agentName = req.query.agent as string | undefined;
+    const topic = req.query.topic as string | undefined;
+    const agent = await (agentName && isValidAgent(agentName)
+      ? getAgentConfig(agentName, { userId, topic })
+      : getDefaultAgent({ userId }));
+
+    console.log(
+      `📝 Creating ${mode} session for agent: ${agent.name}${topic ? ` (topic: ${topic})` : ""}...`,
+    );
+
+    console.log("agent instructions:", agent.instructions);
+
+    const secret = await createClientSecretFor(mode);
+    if (secret && !secret.ok) {
+      return res.status(secret.status).json({
+        error: "Failed to create session",
+        details: secret.error,
+      });
+    }
+    const clientSecret: ClientSecret | undefined = secret?.secret;
+
+    const session = await createSession(userId, agent.name, topic, {
+      offline: mode === "offline",
+    });
+    console.log(
+      `✅ ${mode === "direct" ? "Ephemeral" : "Relay"} session created: ${session.sessionId}`,
+    );
+
+    // Transform to match client's expected format
+    res.json({
+      session_id: session.sessionId,
+      mode,
+      provider: { name: PROVIDER.name, realtime_url: PROVIDER.realtimeUrl },
+      ...(clientSecret
+        ? { client_secret: { value: clientSecret.value, expires_at: clientSecret.expires_at } }
+        : {}),
+      voice: VOICE,
+      instructions: agent.instructions,
+      tools: agent.tools,
+      agent: agent.name,
+      greeting: agent.greeting,
+    });
+  } catch (error) {
+    console.error("❌ Error creating session:", error);
+    res.status(500).json({
+      error: "Failed to create session",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Session refresh endpoint - picks an unexpired session back up on a new connection,
+// after the old one dropped or before its ephemeral token expires. Returns the same
+// shape as POST /session, with the session's current agent and, once anything has been
+// said, instructions recapping the conversation so far (`resumed: true`).
+app.post("/session/:id/refresh", sessionLimiter, requireAuth, async (req, res) => {
+  try {
+    const userId = res.locals.userId as string;
+    const mode = readConnectionMode(req.query);
+    const lookup = await findActiveSession(req.params.id, userId);
+
+    if (!lookup.ok) {
+      return res.status(lookup.status).json({ error: lookup.error });
+    }
+
+    const secret = await createClientSecretFor(mode);
+    if (secret && !secret.ok) {
+      return res.status(secret.status).json({
+        error: "Failed to refresh session",
+        details: secret.error,
+      });
+    }
+
+    // The user is still at it, so the session mustn't run out under them
+    const session = await extendSession(lookup.session);
+    const agent = await getResumedAgentConfig(session, userId);
+    console.log(
+      `🔁 Refreshed ${mode} session ${session.sessionId} (${agent.name} agent${agent.resumed ? ", resuming" : ""})`,
+    );
+
+    res.json({
+      session_id: session.sessionId,
+      mode,
+      provider: { name: PROVIDER.name, realtime_url: PROVIDER.realtimeUrl },
+      ...(secret?.ok
+        ? { client_secret: { value: secret.secret.value, expires_at: secret.secret.expires_at } }
+        : {}),
+      voice: VOICE,
+      instructions: agent.instructions,
+      tools: agent.tools,
+      agent: agent.name,
+      greeting: agent.greeting,
+      resumed: agent.resumed,
+    });
+  } catch (error) {
+    console.error("❌ Error refreshing session:", error);
+    res.status(500).json({
+      error: "Failed to refresh session",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Tool execution endpoint - client relays tool calls here
+app.post("/tools/execute", requireAuth, async (req, res) => {
+  try {
+    const { toolName, args, sessionId } = req.body as {
+      toolName: string;
+      args: Record<string, unknown>;
+      sessionId: string;
+    };
+
+    if (!toolName || !sessionId) {
+      return res.status(400).json({ error: "Missing toolName or sessionId" });
+    }
+
+    const run = await runSessionTool(sessionId, res.locals.userId as string, toolName, args ?? {});
+
+    if (!run.ok) {
+      return res.status(run.status).json({ error: run.error });
+    }
+
+    res.json({ result: run.result });
+  } catch (error) {
+    console.error("❌ Error executing tool:", error);
+    res.status(500).json({
+      error: "Tool execution failed",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Realtime relay - in relay mode the browser connects here instead of to the provider, and
+// tool calls run on the server without a round trip through the browser
+app.ws("/realtime", (ws, req) => {
+  handleRelayConnection(ws, req, PROVIDER).catch((error) => {
+    console.error("❌ Relay connection failed:", error);
+    ws.close(1011, "Relay failed");
+  });
+});
+
+// WebRTC signaling - in webrtc mode audio travels as Opus over a peer connection that
+// the server bridges to the provider, with realtime events on a data channel
+app.ws("/signaling/:sessionId", (ws, req) => {
+  handleSignalingConnection(ws, req, PROVIDER).catch((error) => {
+    console.error("❌ WebRTC signaling failed:", error);
+    ws.close(1011, "Signaling failed");
+  });
+});
+
+// Offline mock of the realtime API, only served when it's the configured provider
+if (PROVIDER.name === "mock") {
+  app.ws(MOCK_REALTIME_PATH, (ws) => handleMockConnection(ws));
+}
+
+// ========================================
+// Flashcard Management Endpoints
+// ========================================
+
+// Deck import/export is mounted above, which also means /export and /import aren't
+// taken as card IDs
+app.use("/flashcards", flashcardsRouter);
+
+// ========================================
+// Review Statistics
+// ========================================
+
+app.use("/stats", statsRouter);
+
+// ========================================
+// Session History
+// ========================================
+
+app.use("/sessions", sessionsRouter);
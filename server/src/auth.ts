@@ -0,0 +1,88 @@
+/**
+ * User accounts and authentication
+ *
+ * Passwords are hashed with scrypt. Authenticated requests carry a bearer token that
+ * is signed with AUTH_SECRET and encodes the user ID and an expiry.
+ */
+
+import crypto from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+const AUTH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const AUTH_SECRET = process.env.AUTH_SECRET || crypto.randomBytes(32).toString("hex");
+if (!process.env.AUTH_SECRET) {
+  console.log("⚠️  AUTH_SECRET not configured - tokens will not survive a server restart");
+}
+
+/**
+ * Hash a password for storage as `salt:hash`
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto.scryptSync(password, salt, 64).toString("hex");
+  return `${salt}:${hash}`;
+}
+
+/**
+ * Check a password against a stored `salt:hash`
+ */
+export function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * HMAC signature of a value using the server secret
+ */
+export function sign(value: string): string {
+  return crypto.createHmac("sha256", AUTH_SECRET).update(value).digest("base64url");
+}
+
+/**
+ * Check a value's signature in constant time
+ */
+export function verifySignature(value: string, signature: string): boolean {
+  const expected = Buffer.from(sign(value));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Create a signed bearer token for a user
+ */
+export function createAuthToken(userId: string): string {
+  const payload = `${userId}.${Date.now() + AUTH_TOKEN_TTL_MS}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Verify a bearer token and return the user ID it was issued for
+ */
+export function verifyAuthToken(token: string): string | null {
+  const [userId, expiresAt, signature] = token.split(".");
+  if (!userId || !expiresAt || !signature) return null;
+  if (!verifySignature(`${userId}.${expiresAt}`, signature)) return null;
+  if (Number(expiresAt) < Date.now()) return null;
+  return userId;
+}
+
+/**
+ * Express middleware that rejects requests without a valid bearer token and
+ * exposes the authenticated user as `res.locals.userId`
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  const token = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : undefined;
+  const userId = token ? verifyAuthToken(token) : null;
+
+  if (!userId) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+
+  res.locals.userId = userId;
+  next();
+}
@@ -1,12 +1,24 @@
-import { MongoClient } from "mongodb";
+/**
+ * MongoDB connection, opened on first use
+ */
 
-const uri = process.env.MONGODB_URI;
-if (!uri) throw new Error("MONGODB_URI missing");
+import { MongoClient } from "mongodb";
 
-const client = new MongoClient(uri);
-let ready: Promise<MongoClient>;
+let client: MongoClient | null = null;
+let ready: Promise<MongoClient> | null = null;
 
 export function getDb() {
-  if (!ready) ready = client.connect();
+  if (!ready) {
+    const uri = process.env.MONGODB_URI;
+    if (!uri) return Promise.reject(new Error("MONGODB_URI missing"));
+    client = new MongoClient(uri);
+    ready = client.connect();
+  }
   return ready.then((c) => c.db()); // uses DB from URI
 }
+
+export async function closeDb() {
+  await client?.close();
+  client = null;
+  ready = null;
+}
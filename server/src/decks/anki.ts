@@ -0,0 +1,156 @@
+/**
+ * Anki plain-text deck format
+ *
+ * Reads and writes the tab-separated "Notes in Plain Text" format that Anki imports
+ * and exports, including its `#key:value` file headers. Each note's first field is
+ * the question, its second field the answer, and its deck becomes the topic. The
+ * format has no room for review history, so only the cards themselves round-trip.
+ */
+
+import { quoteField, splitRows } from "./delimited";
+import type { DeckCard, DeckFormat, ParsedDeck } from "./types";
+
+interface AnkiHeaders {
+  separator: string;
+  html: boolean;
+  deckColumn?: number;
+  tagsColumn?: number;
+  notetypeColumn?: number;
+  guidColumn?: number;
+}
+
+const SEPARATOR_NAMES: Record<string, string> = {
+  tab: "\t",
+  comma: ",",
+  semicolon: ";",
+  space: " ",
+  pipe: "|",
+  colon: ":",
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Serialize cards as an Anki text file with one Basic note per card
+ */
+function exportAnkiText(cards: DeckCard[]): string {
+  const lines = ["#separator:tab", "#html:true", "#notetype:Basic", "#deck column:3"];
+  for (const card of cards) {
+    // Only the note fields are HTML; the deck column is a plain name
+    const fields = [textToHtml(card.question), textToHtml(card.answer), card.topic];
+    lines.push(fields.map((f) => quoteField(f, "\t")).join("\t"));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Parse an Anki text file into cards. Notes without a deck column use `defaultTopic`.
+ */
+function parseAnkiText(text: string, defaultTopic: string): ParsedDeck {
+  const headers: AnkiHeaders = { separator: "\t", html: false };
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+
+  // Header lines come first, each starting with '#'
+  let bodyStart = 0;
+  while (bodyStart < lines.length && lines[bodyStart].startsWith("#")) {
+    applyHeader(headers, lines[bodyStart]);
+    bodyStart++;
+  }
+
+  const rows = splitRows(lines.slice(bodyStart).join("\n"), headers.separator);
+  const special = new Set(
+    [headers.deckColumn, headers.tagsColumn, headers.notetypeColumn, headers.guidColumn].filter(
+      (c): c is number => c !== undefined,
+    ),
+  );
+
+  const cards: DeckCard[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    if (row.every((field) => !field.trim())) return;
+
+    const fields = row.filter((_, column) => !special.has(column + 1));
+    const clean = (value: string | undefined) =>
+      (headers.html ? htmlToText(value ?? "") : (value ?? "")).trim();
+
+    const question = clean(fields[0]);
+    const answer = clean(fields[1]);
+    const deck = headers.deckColumn ? (row[headers.deckColumn - 1] ?? "").trim() : "";
+
+    if (!question || !answer) {
+      errors.push(`Note ${index + 1}: missing question or answer`);
+      return;
+    }
+
+    cards.push({ question, answer, topic: deck || defaultTopic });
+  });
+
+  return { cards, errors };
+}
+
+function applyHeader(headers: AnkiHeaders, line: string) {
+  const match = /^#([^:]+):(.*)$/.exec(line);
+  if (!match) return;
+  const key = match[1].trim().toLowerCase();
+  const value = match[2].trim();
+
+  switch (key) {
+    case "separator":
+      headers.separator = SEPARATOR_NAMES[value.toLowerCase()] ?? (value || "\t");
+      break;
+    case "html":
+      headers.html = value.toLowerCase() === "true";
+      break;
+    case "deck column":
+      headers.deckColumn = Number(value) || undefined;
+      break;
+    case "tags column":
+      headers.tagsColumn = Number(value) || undefined;
+      break;
+    case "notetype column":
+      headers.notetypeColumn = Number(value) || undefined;
+      break;
+    case "guid column":
+      headers.guidColumn = Number(value) || undefined;
+      break;
+  }
+}
+
+function textToHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r?\n/g, "<br>");
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(div|p)>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+      if (code.startsWith("#")) {
+        const point =
+          code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/\n{3,}/g, "\n\n");
+}
+
+export const ankiFormat: DeckFormat = {
+  contentType: "text/plain; charset=utf-8",
+  extension: "txt",
+  serialize: exportAnkiText,
+  parse: parseAnkiText,
+};
@@ -0,0 +1,91 @@
+/**
+ * CSV deck format
+ *
+ * One card per row with a header row. The history column holds the card's reviews as
+ * a JSON array so it survives a round trip through spreadsheet tools.
+ */
+
+import { quoteField, splitRows } from "./delimited";
+import { parseCreatedAt, parseHistory, serializeHistory } from "./history";
+import type { DeckCard, DeckFormat, ParsedDeck } from "./types";
+
+const COLUMNS = ["question", "answer", "topic", "createdAt", "history"] as const;
+
+function exportCsv(cards: DeckCard[]): string {
+  const rows = cards.map((card) =>
+    [
+      card.question,
+      card.answer,
+      card.topic,
+      card.createdAt?.toISOString() ?? "",
+      card.history?.length ? JSON.stringify(serializeHistory(card.history)) : "",
+    ]
+      .map((field) => quoteField(field, ","))
+      .join(","),
+  );
+  return [COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+function parseCsv(text: string, defaultTopic: string): ParsedDeck {
+  const rows = splitRows(text.replace(/^\uFEFF/, ""), ",");
+  if (rows.length === 0) return { cards: [], errors: [] };
+
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name.toLowerCase());
+  const questionColumn = column("question");
+  const answerColumn = column("answer");
+
+  if (questionColumn === -1 || answerColumn === -1) {
+    return { cards: [], errors: ['Header row must include "question" and "answer" columns'] };
+  }
+
+  const topicColumn = column("topic");
+  const createdAtColumn = column("createdAt");
+  const historyColumn = column("history");
+
+  const cards: DeckCard[] = [];
+  const errors: string[] = [];
+
+  rows.slice(1).forEach((row, index) => {
+    if (row.every((field) => !field.trim())) return;
+    const line = index + 2;
+
+    const question = row[questionColumn]?.trim() ?? "";
+    const answer = row[answerColumn]?.trim() ?? "";
+    if (!question || !answer) {
+      errors.push(`Row ${line}: missing question or answer`);
+      return;
+    }
+
+    let rawHistory: unknown;
+    try {
+      const cell = historyColumn === -1 ? "" : (row[historyColumn]?.trim() ?? "");
+      rawHistory = cell ? JSON.parse(cell) : undefined;
+    } catch {
+      errors.push(`Row ${line}: history is not valid JSON`);
+      return;
+    }
+    const parsed = parseHistory(rawHistory);
+    if ("error" in parsed) {
+      errors.push(`Row ${line}: ${parsed.error}`);
+      return;
+    }
+
+    cards.push({
+      question,
+      answer,
+      topic: (topicColumn === -1 ? "" : row[topicColumn]?.trim()) || defaultTopic,
+      createdAt: createdAtColumn === -1 ? undefined : parseCreatedAt(row[createdAtColumn]?.trim()),
+      history: parsed.history,
+    });
+  });
+
+  return { cards, errors };
+}
+
+export const csvFormat: DeckFormat = {
+  contentType: "text/csv; charset=utf-8",
+  extension: "csv",
+  serialize: exportCsv,
+  parse: parseCsv,
+};
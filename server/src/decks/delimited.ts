@@ -0,0 +1,56 @@
+/**
+ * Helpers for delimiter-separated text (CSV, Anki's tab-separated notes)
+ */
+
+/**
+ * Split delimited text into rows of fields, honoring double-quoted fields that may
+ * contain separators, newlines and doubled quotes
+ */
+export function splitRows(text: string, separator: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || (char === "\r" && text[i + 1] === "\n")) {
+      if (char === "\r") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Quote a field if it contains the separator, a newline or a quote
+ */
+export function quoteField(value: string, separator: string): string {
+  const needsQuotes = value.includes(separator) || /[\r\n"]/.test(value);
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,53 @@
+/**
+ * Review history encoding shared by the formats that carry it
+ */
+
+import { isReviewGrade } from "../scheduler";
+import type { DeckReview } from "./types";
+
+/**
+ * Plain JSON form of a review, with an ISO 8601 timestamp
+ */
+export interface SerializedReview {
+  attemptedAt: string;
+  grade: string;
+  missedPoints?: string[];
+}
+
+export function serializeHistory(history: DeckReview[] = []): SerializedReview[] {
+  return history.map((review) => ({
+    attemptedAt: review.attemptedAt.toISOString(),
+    grade: review.grade,
+    ...(review.missedPoints?.length ? { missedPoints: review.missedPoints } : {}),
+  }));
+}
+
+/**
+ * Validate a parsed history array. Returns an error message if any entry is malformed.
+ */
+export function parseHistory(value: unknown): { history: DeckReview[] } | { error: string } {
+  if (value === undefined || value === null || value === "") return { history: [] };
+  if (!Array.isArray(value)) return { error: "history must be a list of reviews" };
+
+  const history: DeckReview[] = [];
+  for (const entry of value) {
+    const attemptedAt = new Date(entry?.attemptedAt);
+    if (isNaN(attemptedAt.getTime())) return { error: "review has an invalid attemptedAt" };
+    if (!isReviewGrade(entry?.grade)) return { error: `review has an invalid grade` };
+
+    const missedPoints = Array.isArray(entry.missedPoints)
+      ? entry.missedPoints.filter((p: unknown): p is string => typeof p === "string")
+      : undefined;
+    history.push({ attemptedAt, grade: entry.grade, ...(missedPoints ? { missedPoints } : {}) });
+  }
+  return { history };
+}
+
+/**
+ * Parse an optional ISO 8601 creation date
+ */
+export function parseCreatedAt(value: unknown): Date | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,291 @@
+/**
+ * Deck import and export
+ *
+ * Format modules turn files into `DeckCard`s and back; this module handles loading the
+ * user's cards (with their review history) for export, and planning and applying
+ * imports. An import creates cards the user doesn't have, updates ones whose answer
+ * changed or that bring new reviews, and skips the rest. A dry run returns the same
+ * plan without writing anything.
+ */
+
+import { ObjectId } from "mongodb";
+import { newFlashcardDocument, readFlashcardInput } from "../flashcards";
+import type { FlashcardInput } from "../flashcards";
+import {
+  applyReview,
+  gradeToQuality,
+  initialSchedule,
+  isPassingGrade,
+  isReviewGrade,
+} from "../scheduler";
+import type { ReviewGrade, ScheduleState } from "../scheduler";
+import { getStorage } from "../storage";
+import type { AttemptDocument } from "../storage";
+import type { FieldError } from "../validation";
+import { ankiFormat } from "./anki";
+import { csvFormat } from "./csv";
+import { jsonFormat } from "./json";
+import { markdownFormat } from "./markdown";
+import type { DeckCard, DeckFormat, DeckReview } from "./types";
+
+export type { DeckCard, DeckFormat } from "./types";
+
+export const DECK_FORMATS = {
+  anki: ankiFormat,
+  csv: csvFormat,
+  json: jsonFormat,
+  markdown: markdownFormat,
+} satisfies Record<string, DeckFormat>;
+
+export type DeckFormatName = keyof typeof DECK_FORMATS;
+
+export const DECK_FORMAT_NAMES = Object.keys(DECK_FORMATS) as DeckFormatName[];
+
+export type ImportAction = "create" | "update" | "skip";
+
+/**
+ * What an import did (or would do) with one card from the file
+ */
+export interface ImportItem {
+  action: ImportAction;
+  topic: string;
+  question: string;
+  reason?: string;
+  newReviews: number;
+}
+
+export interface ImportResult {
+  summary: { created: number; updated: number; skipped: number };
+  items: ImportItem[];
+  errors: string[];
+}
+
+interface ExistingCard {
+  _id: ObjectId;
+  answer: string;
+  createdAt: Date;
+  history: DeckReview[];
+}
+
+/**
+ * Key identifying duplicate cards: same topic and same question, ignoring case
+ * and whitespace
+ */
+function duplicateKey(card: FlashcardInput): string {
+  const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, " ");
+  return `${normalize(card.topic)}\u0000${normalize(card.question)}`;
+}
+
+/**
+ * Read a stored attempt as a review. Attempts recorded before grades existed only
+ * have `isCorrect`, which maps to "good" or "again".
+ */
+function attemptToReview(attempt: AttemptDocument): DeckReview {
+  const grade: ReviewGrade = isReviewGrade(attempt.grade)
+    ? attempt.grade
+    : attempt.isCorrect
+      ? "good"
+      : "again";
+  const missedPoints = Array.isArray(attempt.missedPoints) ? attempt.missedPoints : undefined;
+  return {
+    attemptedAt: attempt.attemptedAt,
+    grade,
+    ...(missedPoints?.length ? { missedPoints } : {}),
+  };
+}
+
+/**
+ * Load every review of the user's cards, grouped by flashcard id
+ */
+async function loadHistories(userId: ObjectId): Promise<Map<string, DeckReview[]>> {
+  const attempts = await getStorage().attempts.find(userId);
+
+  const histories = new Map<string, DeckReview[]>();
+  for (const attempt of attempts) {
+    if (!attempt.flashcardId) continue;
+    const key = String(attempt.flashcardId);
+    const history = histories.get(key) ?? [];
+    history.push(attemptToReview(attempt));
+    histories.set(key, history);
+  }
+  return histories;
+}
+
+/**
+ * Rebuild a card's schedule and grade tally by replaying its reviews in order
+ */
+function replayHistory(
+  createdAt: Date,
+  history: DeckReview[],
+): ScheduleState & { gradeCounts: Partial<Record<ReviewGrade, number>> } {
+  let schedule = initialSchedule(createdAt);
+  const gradeCounts: Partial<Record<ReviewGrade, number>> = {};
+
+  const ordered = [...history].sort((a, b) => a.attemptedAt.getTime() - b.attemptedAt.getTime());
+  for (const review of ordered) {
+    schedule = applyReview(schedule, gradeToQuality(review.grade), review.attemptedAt);
+    gradeCounts[review.grade] = (gradeCounts[review.grade] ?? 0) + 1;
+  }
+  return { ...schedule, gradeCounts };
+}
+
+function attemptDocument(
+  userId: ObjectId,
+  flashcardId: ObjectId,
+  review: DeckReview,
+): AttemptDocument {
+  return {
+    userId,
+    flashcardId,
+    grade: review.grade,
+    isCorrect: isPassingGrade(review.grade),
+    missedPoints: review.missedPoints ?? [],
+    attemptedAt: review.attemptedAt,
+    imported: true,
+  };
+}
+
+/**
+ * Load the user's cards for export, optionally limited to one topic
+ */
+export async function loadCardsForExport(userId: string, topic?: string): Promise<DeckCard[]> {
+  const owner = new ObjectId(userId);
+  const [cards, histories] = await Promise.all([
+    getStorage().flashcards.find(owner, topic ? { topic } : {}),
+    loadHistories(owner),
+  ]);
+
+  cards.sort(
+    (a, b) => a.topic.localeCompare(b.topic) || a.createdAt.getTime() - b.createdAt.getTime(),
+  );
+  return cards.map((c) => ({
+    question: c.question,
+    answer: c.answer,
+    topic: c.topic,
+    createdAt: c.createdAt,
+    history: histories.get(String(c._id)) ?? [],
+  }));
+}
+
+/**
+ * Work out what importing `cards` would do and, unless `dryRun` is set, do it.
+ *
+ * Cards that fail the same validation as cards created through the API are reported
+ * as errors. Imported reviews are matched to existing ones by timestamp, so importing
+ * the same export twice adds nothing.
+ */
+export async function importCards(
+  userId: string,
+  cards: DeckCard[],
+  options: { dryRun?: boolean } = {},
+): Promise<ImportResult> {
+  const storage = getStorage();
+  const owner = new ObjectId(userId);
+  const [stored, histories] = await Promise.all([
+    storage.flashcards.find(owner),
+    loadHistories(owner),
+  ]);
+
+  const existing = new Map<string, ExistingCard>();
+  for (const c of stored) {
+    existing.set(duplicateKey({ question: c.question, answer: "", topic: c.topic }), {
+      _id: c._id,
+      answer: c.answer,
+      createdAt: c.createdAt ?? c._id.getTimestamp(),
+      history: histories.get(String(c._id)) ?? [],
+    });
+  }
+
+  const items: ImportItem[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const writes: (() => Promise<unknown>)[] = [];
+
+  for (const card of cards) {
+    const problems: FieldError[] = [];
+    readFlashcardInput(
+      { question: card.question, answer: card.answer, topic: card.topic },
+      problems,
+    );
+    if (problems.length > 0) {
+      const detail = problems.map((p) => `${p.field} ${p.message}`).join(", ");
+      errors.push(`"${card.question.slice(0, 40)}": ${detail}`);
+      continue;
+    }
+
+    const key = duplicateKey(card);
+    const item = { topic: card.topic, question: card.question };
+
+    if (seen.has(key)) {
+      items.push({ ...item, action: "skip", reason: "Duplicate in file", newReviews: 0 });
+      continue;
+    }
+    seen.add(key);
+
+    const match = existing.get(key);
+
+    if (!match) {
+      const history = card.history ?? [];
+      const createdAt = card.createdAt ?? new Date();
+      const document = {
+        ...newFlashcardDocument(userId, card),
+        createdAt,
+        ...replayHistory(createdAt, history),
+      };
+      items.push({ ...item, action: "create", newReviews: history.length });
+      writes.push(async () => {
+        const insertedId = await storage.flashcards.create(document);
+        await storage.attempts.create(
+          history.map((review) => attemptDocument(owner, insertedId, review)),
+        );
+      });
+      continue;
+    }
+
+    const known = new Set(match.history.map((review) => review.attemptedAt.getTime()));
+    const newReviews = (card.history ?? []).filter((review) => {
+      const time = review.attemptedAt.getTime();
+      if (known.has(time)) return false;
+      known.add(time);
+      return true;
+    });
+    const answerChanged = card.answer !== match.answer;
+
+    if (!answerChanged && newReviews.length === 0) {
+      items.push({ ...item, action: "skip", reason: "Already up to date", newReviews: 0 });
+      continue;
+    }
+
+    const reason = [answerChanged && "answer changed", newReviews.length > 0 && "new reviews"]
+      .filter(Boolean)
+      .join(", ");
+    items.push({ ...item, action: "update", reason, newReviews: newReviews.length });
+
+    const update = {
+      ...(answerChanged ? { answer: card.answer } : {}),
+      ...(newReviews.length > 0
+        ? replayHistory(match.createdAt, [...match.history, ...newReviews])
+        : {}),
+      updatedAt: new Date(),
+    };
+    writes.push(async () => {
+      await storage.flashcards.update(owner, match._id, update);
+      await storage.attempts.create(
+        newReviews.map((review) => attemptDocument(owner, match._id, review)),
+      );
+    });
+  }
+
+  if (!options.dryRun) {
+    for (const write of writes) {
+      await write();
+    }
+  }
+
+  const count = (action: ImportAction) => items.filter((i) => i.action === action).length;
+  return {
+    summary: { created: count("create"), updated: count("update"), skipped: count("skip") },
+    items,
+    errors,
+  };
+}
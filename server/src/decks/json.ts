@@ -0,0 +1,75 @@
+/**
+ * JSON deck format - the lossless form of a deck, including review history
+ */
+
+import { parseCreatedAt, parseHistory, serializeHistory } from "./history";
+import type { DeckCard, DeckFormat, ParsedDeck } from "./types";
+
+const FORMAT_VERSION = 1;
+
+function exportJson(cards: DeckCard[]): string {
+  const deck = {
+    version: FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    cards: cards.map((card) => ({
+      question: card.question,
+      answer: card.answer,
+      topic: card.topic,
+      ...(card.createdAt ? { createdAt: card.createdAt.toISOString() } : {}),
+      history: serializeHistory(card.history),
+    })),
+  };
+  return JSON.stringify(deck, null, 2) + "\n";
+}
+
+function parseJson(text: string, defaultTopic: string): ParsedDeck {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { cards: [], errors: ["File is not valid JSON"] };
+  }
+
+  // Accept either a full export or a bare array of cards
+  const entries = Array.isArray(data) ? data : (data as { cards?: unknown })?.cards;
+  if (!Array.isArray(entries)) {
+    return { cards: [], errors: ['Expected a "cards" array'] };
+  }
+
+  const cards: DeckCard[] = [];
+  const errors: string[] = [];
+
+  entries.forEach((entry, index) => {
+    const question = typeof entry?.question === "string" ? entry.question.trim() : "";
+    const answer = typeof entry?.answer === "string" ? entry.answer.trim() : "";
+    const topic = typeof entry?.topic === "string" && entry.topic.trim() ? entry.topic.trim() : "";
+
+    if (!question || !answer) {
+      errors.push(`Card ${index + 1}: missing question or answer`);
+      return;
+    }
+
+    const parsed = parseHistory(entry.history);
+    if ("error" in parsed) {
+      errors.push(`Card ${index + 1}: ${parsed.error}`);
+      return;
+    }
+
+    cards.push({
+      question,
+      answer,
+      topic: topic || defaultTopic,
+      createdAt: parseCreatedAt(entry.createdAt),
+      history: parsed.history,
+    });
+  });
+
+  return { cards, errors };
+}
+
+export const jsonFormat: DeckFormat = {
+  contentType: "application/json; charset=utf-8",
+  extension: "json",
+  serialize: exportJson,
+  parse: parseJson,
+};
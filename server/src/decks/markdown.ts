@@ -0,0 +1,133 @@
+/**
+ * Markdown deck format
+ *
+ * Readable notes for sharing or editing by hand: each topic is a `##` heading and each
+ * card a `Q:` / `A:` pair, which may span several lines. Creation dates and review
+ * history ride along in an HTML comment after the answer so renderers hide them.
+ */
+
+import { parseCreatedAt, parseHistory, serializeHistory } from "./history";
+import type { DeckCard, DeckFormat, ParsedDeck } from "./types";
+
+const METADATA_PATTERN = /^<!--\s*groklearn\s+(.*?)\s*-->$/;
+
+// Lines that would be read as structure are escaped with a leading backslash
+const STRUCTURAL_LINE = /^(\\|Q:|A:|#|---|<!--)/;
+
+function exportMarkdown(cards: DeckCard[]): string {
+  const lines = ["# GrokLearn flashcards"];
+  let topic: string | undefined;
+
+  for (const card of cards) {
+    if (card.topic !== topic) {
+      topic = card.topic;
+      lines.push("", `## ${escapeLine(topic)}`);
+    }
+
+    lines.push("", `Q: ${escapeText(card.question)}`, `A: ${escapeText(card.answer)}`);
+
+    const metadata = {
+      ...(card.createdAt ? { createdAt: card.createdAt.toISOString() } : {}),
+      ...(card.history?.length ? { history: serializeHistory(card.history) } : {}),
+    };
+    if (Object.keys(metadata).length > 0) {
+      lines.push(`<!-- groklearn ${JSON.stringify(metadata).replace(/--/g, "\\u002d-")} -->`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function parseMarkdown(text: string, defaultTopic: string): ParsedDeck {
+  const cards: DeckCard[] = [];
+  const errors: string[] = [];
+
+  let topic = defaultTopic;
+  let card: { question: string[]; answer?: string[]; metadata?: string; line: number } | null =
+    null;
+
+  const finish = () => {
+    if (!card) return;
+    const question = card.question.join("\n").trim();
+    const answer = card.answer?.join("\n").trim() ?? "";
+    const line = card.line;
+    const metadata = card.metadata;
+    card = null;
+
+    if (!question || !answer) {
+      errors.push(`Line ${line}: missing question or answer`);
+      return;
+    }
+
+    let raw: { createdAt?: unknown; history?: unknown } = {};
+    if (metadata) {
+      try {
+        raw = JSON.parse(metadata);
+      } catch {
+        errors.push(`Line ${line}: card metadata is not valid JSON`);
+        return;
+      }
+    }
+    const parsed = parseHistory(raw.history);
+    if ("error" in parsed) {
+      errors.push(`Line ${line}: ${parsed.error}`);
+      return;
+    }
+
+    cards.push({
+      question,
+      answer,
+      topic,
+      createdAt: parseCreatedAt(raw.createdAt),
+      history: parsed.history,
+    });
+  };
+
+  text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .forEach((rawLine, index) => {
+      const line = rawLine.trimEnd();
+      const metadata = METADATA_PATTERN.exec(line);
+
+      if (/^##\s/.test(line)) {
+        finish();
+        topic = unescapeLine(line.replace(/^##\s+/, "")).trim() || defaultTopic;
+      } else if (/^#\s/.test(line) || line === "---") {
+        finish();
+      } else if (line.startsWith("Q:")) {
+        finish();
+        card = { question: [line.slice(2)], line: index + 1 };
+      } else if (card && !card.answer && line.startsWith("A:")) {
+        card.answer = [line.slice(2)];
+      } else if (card && metadata) {
+        card.metadata = metadata[1];
+      } else if (card) {
+        (card.answer ?? card.question).push(unescapeLine(line));
+      }
+    });
+  finish();
+
+  return { cards, errors };
+}
+
+function escapeLine(line: string): string {
+  return STRUCTURAL_LINE.test(line) ? `\\${line}` : line;
+}
+
+function escapeText(text: string): string {
+  // The first line follows "Q: " or "A: " so only continuation lines need escaping
+  const [first, ...rest] = text.split(/\r?\n/);
+  return [first, ...rest.map(escapeLine)].join("\n");
+}
+
+function unescapeLine(line: string): string {
+  return line.startsWith("\\") ? line.slice(1) : line;
+}
+
+export const markdownFormat: DeckFormat = {
+  contentType: "text/markdown; charset=utf-8",
+  extension: "md",
+  serialize: exportMarkdown,
+  parse: parseMarkdown,
+};
@@ -0,0 +1,39 @@
+/**
+ * Type definitions for deck files
+ */
+
+import type { FlashcardInput } from "../flashcards";
+import type { ReviewGrade } from "../scheduler";
+
+/**
+ * One past review of a card, as stored in the `attempts` collection
+ */
+export interface DeckReview {
+  attemptedAt: Date;
+  grade: ReviewGrade;
+  missedPoints?: string[];
+}
+
+/**
+ * A card as it appears in a deck file. Formats that can't carry creation dates or
+ * review history (like Anki's) leave them out.
+ */
+export interface DeckCard extends FlashcardInput {
+  createdAt?: Date;
+  history?: DeckReview[];
+}
+
+export interface ParsedDeck {
+  cards: DeckCard[];
+  errors: string[];
+}
+
+/**
+ * A file format decks can be exported to and imported from
+ */
+export interface DeckFormat {
+  contentType: string;
+  extension: string;
+  serialize: (cards: DeckCard[]) => string;
+  parse: (text: string, defaultTopic: string) => ParsedDeck;
+}
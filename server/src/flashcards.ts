@@ -0,0 +1,80 @@
+/**
+ * Flashcard document shape shared by the agent tools and the REST API
+ */
+
+import { ObjectId } from "mongodb";
+import { initialSchedule } from "./scheduler";
+import type { ReviewGrade, ScheduleState } from "./scheduler";
+import type { FieldError } from "./validation";
+import { readString } from "./validation";
+
+export const MAX_QUESTION_LENGTH = 2000;
+export const MAX_ANSWER_LENGTH = 2000;
+export const MAX_TOPIC_LENGTH = 100;
+
+/**
+ * Fields a user (or agent) provides for a card
+ */
+export interface FlashcardInput {
+  question: string;
+  answer: string;
+  topic: string;
+}
+
+/**
+ * Flashcard as stored
+ */
+export interface FlashcardDocument extends FlashcardInput, ScheduleState {
+  userId: ObjectId;
+  sessionId?: string;
+  createdAt: Date;
+  updatedAt?: Date;
+  // How many times each grade was given, for accuracy stats
+  gradeCounts?: Partial<Record<ReviewGrade, number>>;
+}
+
+/**
+ * Build a new, immediately due flashcard document
+ */
+export function newFlashcardDocument(
+  userId: string,
+  input: FlashcardInput,
+  sessionId?: string,
+): FlashcardDocument {
+  const createdAt = new Date();
+  return {
+    userId: new ObjectId(userId),
+    ...(sessionId ? { sessionId } : {}),
+    question: input.question,
+    answer: input.answer,
+    topic: input.topic,
+    createdAt,
+    ...initialSchedule(createdAt),
+  };
+}
+
+/**
+ * Read the editable flashcard fields from a request body. With `partial`, missing
+ * fields are allowed (for updates) but provided ones must still be valid.
+ */
+export function readFlashcardInput(
+  body: Record<string, unknown>,
+  errors: FieldError[],
+  options: { partial?: boolean } = {},
+): Partial<FlashcardInput> {
+  const required = !options.partial;
+  const input: Partial<FlashcardInput> = {
+    question: readString(body, "question", errors, {
+      required,
+      maxLength: MAX_QUESTION_LENGTH,
+    }),
+    answer: readString(body, "answer", errors, { required, maxLength: MAX_ANSWER_LENGTH }),
+    topic: readString(body, "topic", errors, { required, maxLength: MAX_TOPIC_LENGTH }),
+  };
+
+  // Drop fields that weren't provided so they can be passed straight to an update
+  for (const key of Object.keys(input) as (keyof FlashcardInput)[]) {
+    if (input[key] === undefined) delete input[key];
+  }
+  return input;
+}
@@ -0,0 +1,36 @@
+/**
+ * Realtime providers - picks the API that sessions talk to
+ *
+ * Set REALTIME_PROVIDER to choose one; it defaults to xai.
+ */
+
+import { createMockProvider } from "./mock";
+import type { ProviderName, RealtimeProvider } from "./types";
+import { createXaiProvider } from "./xai";
+
+export { handleMockConnection, MOCK_REALTIME_PATH } from "./mock";
+export type { ClientSecret, ClientSecretResult, ProviderName, RealtimeProvider } from "./types";
+
+const providerFactories: Record<ProviderName, () => RealtimeProvider> = {
+  xai: createXaiProvider,
+  mock: createMockProvider,
+};
+
+export const PROVIDER_NAMES = Object.keys(providerFactories) as ProviderName[];
+
+export function isValidProvider(name: string): name is ProviderName {
+  return name in providerFactories;
+}
+
+/**
+ * The provider named by REALTIME_PROVIDER
+ */
+export function getProvider(): RealtimeProvider {
+  const name = process.env.REALTIME_PROVIDER || "xai";
+  if (!isValidProvider(name)) {
+    throw new Error(
+      `Unknown REALTIME_PROVIDER "${name}" (expected one of: ${PROVIDER_NAMES.join(", ")})`,
+    );
+  }
+  return providerFactories[name]();
+}
@@ -0,0 +1,101 @@
+/**
+ * Scripted conversation for the mock provider
+ *
+ * The mock can't understand speech, so each spoken turn is given the next transcript
+ * from `userTranscripts`, and replies are picked by matching the user's words against
+ * `rules`. Set MOCK_SCRIPT to a JSON file with the same shape to use your own script.
+ */
+
+import fs from "fs";
+
+export interface MockRule {
+  // Case-insensitive regular expression tested against the user's last message
+  match: string;
+  reply?: string;
+  // Call this tool instead of replying, if the session offers it
+  tool?: { name: string; arguments: Record<string, unknown> };
+}
+
+export interface MockScript {
+  userTranscripts: string[];
+  rules: MockRule[];
+  // Said after a tool call's output comes back
+  afterTool: Record<string, string>;
+  fallback: string;
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  userTranscripts: [
+    "Can you teach me about the mitochondria?",
+    "Please make a flashcard about that.",
+    "Let's review my flashcards.",
+  ],
+  rules: [
+    {
+      match: "flash ?card|remember",
+      tool: {
+        name: "create_flashcard",
+        arguments: {
+          question: "What is the powerhouse of the cell?",
+          answer: "The mitochondria",
+          topic: "Biology",
+        },
+      },
+    },
+    {
+      match: "review",
+      tool: {
+        name: "switch_agent",
+        arguments: { agent: "review", reason: "The user asked to review their flashcards" },
+      },
+    },
+    {
+      match: "teach|learn|about",
+      reply:
+        "Mitochondria are the parts of a cell that turn food into energy the cell can use. Want me to make a flashcard?",
+    },
+    {
+      match: "hello|hi\\b|start|greet",
+      reply: "Hi! I'm the offline mock tutor. What would you like to learn about today?",
+    },
+  ],
+  afterTool: {
+    create_flashcard: "Done! I saved that flashcard for you.",
+    switch_agent: "Alright, let's switch over.",
+  },
+  fallback: "I'm only a mock, but I heard you say: {text}",
+};
+
+/**
+ * Load the script named by MOCK_SCRIPT, falling back to the default
+ */
+export function loadMockScript(): MockScript {
+  const path = process.env.MOCK_SCRIPT;
+  if (!path) return DEFAULT_MOCK_SCRIPT;
+
+  try {
+    const script = JSON.parse(fs.readFileSync(path, "utf8")) as Partial<MockScript>;
+    return { ...DEFAULT_MOCK_SCRIPT, ...script };
+  } catch (error) {
+    console.error(`❌ Failed to load mock script from ${path}, using the default:`, error);
+    return DEFAULT_MOCK_SCRIPT;
+  }
+}
+
+export type MockTurn =
+  | { kind: "reply"; text: string }
+  | { kind: "tool"; name: string; arguments: Record<string, unknown> };
+
+/**
+ * Pick the mock's next turn for what the user said, given the tools the session offers
+ */
+export function pickMockTurn(script: MockScript, text: string, toolNames: string[]): MockTurn {
+  for (const rule of script.rules) {
+    if (!new RegExp(rule.match, "i").test(text)) continue;
+    if (rule.tool && toolNames.includes(rule.tool.name)) {
+      return { kind: "tool", name: rule.tool.name, arguments: rule.tool.arguments };
+    }
+    if (rule.reply) return { kind: "reply", text: rule.reply };
+  }
+  return { kind: "reply", text: script.fallback.replace("{text}", text) };
+}
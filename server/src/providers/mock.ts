@@ -0,0 +1,406 @@
+/**
+ * Offline mock provider
+ *
+ * Speaks the realtime event protocol from a local WebSocket endpoint on this server,
+ * so the app can be developed and demoed without network access or API credits.
+ * Replies come from a script (see mock-script.ts) and are "spoken" as short tones,
+ * one per word, alongside the transcript. Speech in the browser's audio is detected
+ * by loudness alone.
+ *
+ * There is no authentication on the endpoint: only use it for local development.
+ */
+
+import crypto from "crypto";
+import WebSocket from "ws";
+import type { RawData } from "ws";
+import type { XAIMessage } from "../types";
+import { loadMockScript, pickMockTurn } from "./mock-script";
+import type { MockTurn } from "./mock-script";
+import type { RealtimeProvider } from "./types";
+
+export const MOCK_REALTIME_PATH = "/mock/realtime";
+
+const DEFAULT_SAMPLE_RATE = 24000;
+const WORD_INTERVAL_MS = 60;
+const WORD_AUDIO_MS = 280;
+// RMS, as a fraction of full scale, above which input audio counts as speech
+const SPEECH_LEVEL = 0.02;
+// Silence that ends a spoken turn under server VAD, unless the session sets its own
+const SILENCE_MS = 600;
+
+interface MockItem {
+  id: string;
+  type: "message" | "function_call" | "function_call_output";
+  role?: "user" | "assistant" | "system";
+  status?: string;
+  content?: { type: string; text?: string; transcript?: string }[];
+  name?: string;
+  call_id?: string;
+  arguments?: string;
+  output?: string;
+}
+
+/**
+ * The session settings the mock reads; anything else the client sets is echoed back
+ */
+interface MockSession {
+  voice?: string;
+  // Null when the client takes turns itself
+  turn_detection?: { type?: string; silence_duration_ms?: number } | null;
+  audio?: Partial<Record<"input" | "output", { format?: { rate?: number } }>>;
+  tools?: { name?: string; function?: { name?: string } }[];
+  output_modalities?: string[];
+  [key: string]: unknown;
+}
+
+export function createMockProvider(): RealtimeProvider {
+  const port = process.env.PORT || "8000";
+
+  return {
+    name: "mock",
+    label: "Mock",
+    realtimeUrl: process.env.MOCK_REALTIME_URL || `ws://localhost:${port}${MOCK_REALTIME_PATH}`,
+    voice: "mock",
+    apiKey: "",
+    createClientSecret: async () => ({
+      ok: true,
+      secret: {
+        value: `mock-${crypto.randomBytes(8).toString("hex")}`,
+        expires_at: Math.floor(Date.now() / 1000) + 300,
+      },
+    }),
+    upstreamHeaders: () => ({}),
+  };
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}_${crypto.randomBytes(8).toString("hex")}`;
+}
+
+/**
+ * RMS level of PCM16 audio, from 0 to 1
+ */
+function pcmLevel(pcm: Buffer): number {
+  const samples = Math.floor(pcm.length / 2);
+  if (samples === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = pcm.readInt16LE(i * 2) / 32768;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+/**
+ * A short tone standing in for a spoken word
+ */
+function synthesizeWord(word: string, sampleRate: number): Buffer {
+  const samples = Math.round((sampleRate * WORD_AUDIO_MS) / 1000);
+  const fade = Math.round(sampleRate * 0.02);
+  const frequency = 160 + ((word.length * 37) % 140);
+  const pcm = Buffer.alloc(samples * 2);
+
+  for (let i = 0; i < samples; i++) {
+    const envelope = Math.min(1, i / fade, (samples - i) / fade);
+    const value = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * envelope * 0.15;
+    pcm.writeInt16LE(Math.round(value * 32767), i * 2);
+  }
+  return pcm;
+}
+
+/**
+ * Serve one realtime conversation on a WebSocket opened on the mock endpoint
+ */
+export function handleMockConnection(ws: WebSocket) {
+  const script = loadMockScript();
+  const items: MockItem[] = [];
+  let session: MockSession = { voice: "mock", turn_detection: { type: "server_vad" } };
+  let transcriptIndex = 0;
+
+  // Input audio since the last commit, and where speech started in it
+  let bufferedMs = 0;
+  let speechItemId: string | null = null;
+  let silenceMs = 0;
+  let audioMs = 0;
+
+  // The response being streamed, if any
+  let streaming: {
+    timer: NodeJS.Timeout;
+    finish: (status: "completed" | "cancelled") => void;
+  } | null = null;
+
+  const send = (event: XAIMessage) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ event_id: randomId("event"), ...event }));
+    }
+  };
+
+  const sendError = (message: string) => {
+    send({ type: "error", error: { type: "invalid_request_error", message } });
+  };
+
+  const sampleRate = (direction: "input" | "output"): number =>
+    session.audio?.[direction]?.format?.rate ?? DEFAULT_SAMPLE_RATE;
+
+  const toolNames = (): string[] =>
+    (session.tools ?? [])
+      .map((tool) => tool.function?.name ?? tool.name)
+      .filter((name): name is string => !!name);
+
+  const addItem = (item: MockItem) => {
+    const previous = items[items.length - 1];
+    items.push(item);
+    send({ type: "conversation.item.added", previous_item_id: previous?.id ?? null, item });
+  };
+
+  const lastUserText = (): string => {
+    const item = [...items].reverse().find((i) => i.type === "message" && i.role === "user");
+    return (item?.content ?? [])
+      .map((c) => c.text ?? c.transcript ?? "")
+      .join(" ")
+      .trim();
+  };
+
+  const cancelResponse = () => {
+    if (!streaming) return;
+    clearTimeout(streaming.timer);
+    streaming.finish("cancelled");
+  };
+
+  const nextTurn = (): MockTurn => {
+    const last = items[items.length - 1];
+    if (last?.type === "function_call_output") {
+      const call = items.find((i) => i.type === "function_call" && i.call_id === last.call_id);
+      return { kind: "reply", text: script.afterTool[call?.name ?? ""] ?? "Done." };
+    }
+    return pickMockTurn(script, lastUserText(), toolNames());
+  };
+
+  const createResponse = () => {
+    cancelResponse();
+
+    const responseId = randomId("resp");
+    const turn = nextTurn();
+    send({
+      type: "response.created",
+      response: { id: responseId, object: "realtime.response", status: "in_progress", output: [] },
+    });
+
+    if (turn.kind === "tool") {
+      const item: MockItem = {
+        id: randomId("item"),
+        type: "function_call",
+        status: "completed",
+        name: turn.name,
+        call_id: randomId("call"),
+        arguments: JSON.stringify(turn.arguments),
+      };
+      send({ type: "response.output_item.added", response_id: responseId, output_index: 0, item });
+      addItem(item);
+      send({
+        type: "response.function_call_arguments.done",
+        response_id: responseId,
+        item_id: item.id,
+        output_index: 0,
+        call_id: item.call_id,
+        name: item.name,
+        arguments: item.arguments,
+      });
+      send({ type: "response.output_item.done", response_id: responseId, output_index: 0, item });
+      send({
+        type: "response.done",
+        response: { id: responseId, status: "completed", output: [item] },
+      });
+      return;
+    }
+
+    const words = turn.text.split(/\s+/).filter(Boolean);
+    // Text-only sessions get the reply as text, otherwise it's spoken with a transcript
+    const spoken = session.output_modalities?.includes("audio") ?? true;
+    const content: { type: string; text?: string; transcript?: string } = spoken
+      ? { type: "output_audio", transcript: "" }
+      : { type: "output_text", text: "" };
+    let reply = "";
+    const item: MockItem = {
+      id: randomId("item"),
+      type: "message",
+      role: "assistant",
+      status: "in_progress",
+      content: [content],
+    };
+    const part = { response_id: responseId, item_id: item.id, output_index: 0, content_index: 0 };
+    send({ type: "response.output_item.added", response_id: responseId, output_index: 0, item });
+    addItem(item);
+
+    let index = 0;
+    const finish = (status: "completed" | "cancelled") => {
+      streaming = null;
+      item.status = status === "completed" ? "completed" : "incomplete";
+      if (status === "completed" && spoken) {
+        send({ type: "response.output_audio.done", ...part });
+        send({
+          type: "response.output_audio_transcript.done",
+          ...part,
+          transcript: reply,
+        });
+      } else if (status === "completed") {
+        send({ type: "response.output_text.done", ...part, text: reply });
+      }
+      send({ type: "response.output_item.done", response_id: responseId, output_index: 0, item });
+      send({ type: "response.done", response: { id: responseId, status, output: [item] } });
+    };
+
+    const speakNextWord = () => {
+      if (!streaming) return;
+      if (index >= words.length) {
+        finish("completed");
+        return;
+      }
+
+      const word = words[index];
+      const delta = index === 0 ? word : ` ${word}`;
+      reply += delta;
+      if (spoken) {
+        content.transcript = reply;
+        send({ type: "response.output_audio_transcript.delta", ...part, delta });
+        send({
+          type: "response.output_audio.delta",
+          ...part,
+          delta: synthesizeWord(word, sampleRate("output")).toString("base64"),
+        });
+      } else {
+        content.text = reply;
+        send({ type: "response.output_text.delta", ...part, delta });
+      }
+      index++;
+      streaming.timer = setTimeout(speakNextWord, WORD_INTERVAL_MS);
+    };
+
+    streaming = { timer: setTimeout(speakNextWord, WORD_INTERVAL_MS), finish };
+  };
+
+  /**
+   * Turn the buffered audio into a user message, transcribed from the script
+   */
+  const commitAudio = (respond: boolean) => {
+    const id = speechItemId ?? randomId("item");
+    if (speechItemId) {
+      send({
+        type: "input_audio_buffer.speech_stopped",
+        audio_end_ms: Math.round(audioMs),
+        item_id: id,
+      });
+    }
+    send({
+      type: "input_audio_buffer.committed",
+      previous_item_id: items[items.length - 1]?.id ?? null,
+      item_id: id,
+    });
+
+    const transcripts = script.userTranscripts;
+    const transcript = transcripts.length
+      ? transcripts[transcriptIndex++ % transcripts.length]
+      : "";
+    addItem({
+      id,
+      type: "message",
+      role: "user",
+      status: "completed",
+      content: [{ type: "input_audio", transcript }],
+    });
+
+    bufferedMs = 0;
+    speechItemId = null;
+    silenceMs = 0;
+    if (respond) createResponse();
+  };
+
+  const appendAudio = (audio: string) => {
+    const pcm = Buffer.from(audio, "base64");
+    const chunkMs = (pcm.length / 2 / sampleRate("input")) * 1000;
+    const speaking = pcmLevel(pcm) >= SPEECH_LEVEL;
+    bufferedMs += chunkMs;
+    audioMs += chunkMs;
+
+    if (session.turn_detection?.type !== "server_vad") return;
+
+    if (!speechItemId) {
+      if (!speaking) return;
+      speechItemId = randomId("item");
+      silenceMs = 0;
+      cancelResponse();
+      send({
+        type: "input_audio_buffer.speech_started",
+        audio_start_ms: Math.round(audioMs - chunkMs),
+        item_id: speechItemId,
+      });
+      return;
+    }
+
+    silenceMs = speaking ? 0 : silenceMs + chunkMs;
+    if (silenceMs >= (session.turn_detection?.silence_duration_ms ?? SILENCE_MS)) commitAudio(true);
+  };
+
+  ws.on("message", (data: RawData) => {
+    let message: XAIMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      sendError("Malformed JSON");
+      return;
+    }
+
+    switch (message.type) {
+      case "session.update":
+        session = { ...session, ...message.session };
+        send({ type: "session.updated", session });
+        break;
+      case "conversation.item.create":
+        addItem({ id: randomId("item"), ...message.item });
+        break;
+      case "conversation.item.truncate":
+        send({
+          type: "conversation.item.truncated",
+          item_id: message.item_id,
+          content_index: message.content_index,
+          audio_end_ms: message.audio_end_ms,
+        });
+        break;
+      case "input_audio_buffer.append":
+        appendAudio(message.audio ?? "");
+        break;
+      case "input_audio_buffer.commit":
+        // Nothing to commit is fine; the client commits before its greeting. Under server
+        // VAD only detected speech counts, not the silence around it.
+        if (speechItemId || (session.turn_detection?.type !== "server_vad" && bufferedMs > 0)) {
+          commitAudio(false);
+        }
+        break;
+      case "input_audio_buffer.clear":
+        bufferedMs = 0;
+        speechItemId = null;
+        send({ type: "input_audio_buffer.cleared" });
+        break;
+      case "response.create":
+        createResponse();
+        break;
+      case "response.cancel":
+        cancelResponse();
+        break;
+      default:
+        sendError(`Unsupported event type: ${message.type}`);
+    }
+  });
+
+  ws.on("close", () => {
+    if (streaming) clearTimeout(streaming.timer);
+    streaming = null;
+  });
+
+  console.log("🧪 Mock realtime conversation started");
+  send({
+    type: "conversation.created",
+    conversation: { id: randomId("conv"), object: "realtime.conversation" },
+  });
+}
@@ -0,0 +1,35 @@
+/**
+ * Type definitions for realtime providers
+ */
+
+export type ProviderName = "xai" | "mock";
+
+/**
+ * Short-lived token a browser uses to connect to the provider directly
+ */
+export interface ClientSecret {
+  value: string;
+  expires_at: number;
+}
+
+export type ClientSecretResult =
+  { ok: true; secret: ClientSecret } | { ok: false; status: number; error: string };
+
+/**
+ * A realtime API that speaks the realtime event protocol (`session.update`,
+ * `response.output_audio.delta`, `response.function_call_arguments.done`, ...)
+ */
+export interface RealtimeProvider {
+  name: ProviderName;
+  // Shown to clients, e.g. in /health
+  label: string;
+  // Where browsers in direct mode and the server's relay connect
+  realtimeUrl: string;
+  voice: string;
+  // Environment variable holding the API key, for providers that need one
+  apiKeyEnv?: string;
+  apiKey: string;
+  createClientSecret: () => Promise<ClientSecretResult>;
+  // Headers for the relay's own upstream connection
+  upstreamHeaders: () => Record<string, string>;
+}
@@ -0,0 +1,46 @@
+/**
+ * xAI realtime provider
+ *
+ * Also works for other APIs that speak the same dialect: point API_URL and
+ * CLIENT_SECRETS_URL at them.
+ */
+
+import type { RealtimeProvider } from "./types";
+
+const REALTIME_URL = process.env.API_URL || "wss://api.x.ai/v1/realtime";
+const CLIENT_SECRETS_URL =
+  process.env.CLIENT_SECRETS_URL || "https://api.x.ai/v1/realtime/client_secrets";
+const CLIENT_SECRET_TTL_SECONDS = 300;
+
+export function createXaiProvider(): RealtimeProvider {
+  const apiKey = process.env.XAI_API_KEY || "";
+
+  return {
+    name: "xai",
+    label: "XAI",
+    realtimeUrl: REALTIME_URL,
+    voice: "ara",
+    apiKeyEnv: "XAI_API_KEY",
+    apiKey,
+    createClientSecret: async () => {
+      const response = await fetch(CLIENT_SECRETS_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          expires_after: { seconds: CLIENT_SECRET_TTL_SECONDS },
+        }),
+      });
+
+      if (!response.ok) {
+        return { ok: false, status: response.status, error: await response.text() };
+      }
+
+      const secret = (await response.json()) as { value: string; expires_at: number };
+      return { ok: true, secret: { value: secret.value, expires_at: secret.expires_at } };
+    },
+    upstreamHeaders: () => ({ Authorization: `Bearer ${apiKey}` }),
+  };
+}
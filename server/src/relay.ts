@@ -0,0 +1,288 @@
+/**
+ * Realtime relay
+ *
+ * In relay mode the browser talks to this server instead of to the realtime API. The
+ * server holds the upstream connection to the provider with its own credentials, forwards messages both
+ * ways, and runs tool calls itself, so they never round-trip through the browser.
+ * Session instructions and tools always come from the server's agent config; the
+ * browser only chooses audio and turn-taking settings.
+ *
+ * Besides the upstream events, the browser receives a `tool.result` event after each
+ * tool call so it can update its UI.
+ *
+ * The relay itself doesn't care how the browser is connected: `handleRelayConnection`
+ * serves it over a WebSocket, and the WebRTC bridge serves it over a data channel.
+ */
+
+import type { Request } from "express";
+import WebSocket from "ws";
+import type { RawData } from "ws";
+import { verifyAuthToken } from "./auth";
+import { getResumedAgentConfig } from "./agents";
+import type { RealtimeProvider } from "./providers";
+import { findActiveSession } from "./sessions";
+import type { SessionRecord } from "./sessions";
+import { runSessionTool } from "./tool-runner";
+import type { XAIMessage } from "./types";
+
+// Close codes in the application range (4000-4999) so the browser can tell them apart
+export const CLOSE_UNAUTHORIZED = 4001;
+export const CLOSE_FORBIDDEN = 4003;
+export const CLOSE_UPSTREAM_FAILED = 4502;
+
+/**
+ * The browser side of a relay, whatever it's connected over
+ */
+export interface RelayClient {
+  send: (data: string) => void;
+  close: (code: number, reason: string) => void;
+}
+
+export interface RelayOptions {
+  sessionId: string;
+  userId: string;
+  session: SessionRecord;
+  provider: RealtimeProvider;
+  client: RelayClient;
+  // Session settings the transport needs whatever the browser asks for
+  sessionOverrides?: Record<string, unknown>;
+  // Sees every upstream event first; return true to keep it from the browser
+  onUpstreamMessage?: (message: XAIMessage) => boolean | void;
+}
+
+export interface Relay {
+  handleClientMessage: (data: string) => void;
+  sendUpstream: (message: XAIMessage) => void;
+  close: () => void;
+}
+
+export type RealtimeAuth =
+  | { ok: true; userId: string; session: SessionRecord }
+  | { ok: false; code: number; reason: string };
+
+/**
+ * Check the credentials a browser passes when opening a realtime connection. They
+ * come as query parameters, since browsers can't set headers on WebSocket requests.
+ */
+export async function authenticateRealtime(
+  sessionId: string,
+  token: string,
+): Promise<RealtimeAuth> {
+  const userId = verifyAuthToken(token);
+  if (!userId) {
+    return { ok: false, code: CLOSE_UNAUTHORIZED, reason: "Not authenticated" };
+  }
+
+  const lookup = await findActiveSession(sessionId, userId);
+  if (!lookup.ok) {
+    return { ok: false, code: CLOSE_FORBIDDEN, reason: lookup.error };
+  }
+
+  return { ok: true, userId, session: lookup.session };
+}
+
+/**
+ * Open the upstream connection for a session and start relaying
+ */
+export async function createRelay(options: RelayOptions): Promise<Relay> {
+  const { sessionId, userId, session, client } = options;
+
+  // Messages sent before the upstream connection is ready
+  const pending: string[] = [];
+  // A session reconnecting after a drop picks up where it left off
+  const agent = await getResumedAgentConfig(session, userId);
+  // Serialized into session.update, which drops the tools' execute functions
+  let instructions = agent.instructions;
+  let tools: unknown[] = agent.tools;
+  // The browser's latest session settings, reapplied when the agent changes
+  let clientSession: Record<string, unknown> = {};
+  // Tool calls run one at a time, in the order the model made them
+  let toolQueue = Promise.resolve();
+
+  console.log(
+    `[${sessionId}] 🔌 Relay connected for ${agent.name} agent${agent.resumed ? " (resuming)" : ""}`,
+  );
+
+  const upstream = new WebSocket(options.provider.realtimeUrl, {
+    headers: options.provider.upstreamHeaders(),
+  });
+
+  const sendUpstream = (message: XAIMessage) => {
+    const data = JSON.stringify(message);
+    if (upstream.readyState === WebSocket.OPEN) {
+      upstream.send(data);
+    } else if (upstream.readyState === WebSocket.CONNECTING) {
+      pending.push(data);
+    }
+  };
+
+  const configureSession = () => {
+    sendUpstream({
+      type: "session.update",
+      session: { ...clientSession, ...options.sessionOverrides, instructions, tools },
+    });
+  };
+
+  const runTool = async (call: XAIMessage) => {
+    let args: Record<string, unknown> = {};
+    let output: Record<string, unknown>;
+
+    try {
+      args = JSON.parse(call.arguments || "{}");
+      const run = await runSessionTool(sessionId, userId, call.name, args);
+      output = run.ok
+        ? typeof run.result === "object" && run.result !== null
+          ? run.result
+          : { result: run.result }
+        : { error: run.error };
+    } catch (error) {
+      console.error(`[${sessionId}] ❌ Relay tool error:`, error);
+      output = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    // Hand the live session over to the new agent without reconnecting
+    if (call.name === "switch_agent" && output.switched === true) {
+      const { instructions: next, tools: nextTools, ...handoff } = output;
+      instructions = next as string;
+      tools = nextTools as unknown[];
+      configureSession();
+      output = handoff;
+    }
+
+    sendUpstream({
+      type: "conversation.item.create",
+      item: { type: "function_call_output", call_id: call.call_id, output: JSON.stringify(output) },
+    });
+    sendUpstream({ type: "response.create" });
+    client.send(
+      JSON.stringify({
+        type: "tool.result",
+        name: call.name,
+        call_id: call.call_id,
+        args,
+        result: output,
+      }),
+    );
+  };
+
+  upstream.on("open", () => {
+    console.log(`[${sessionId}] ✅ Relay upstream connected`);
+    for (const data of pending.splice(0)) upstream.send(data);
+  });
+
+  upstream.on("message", (data: RawData) => {
+    const text = data.toString();
+
+    let message: XAIMessage;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      client.send(text);
+      return;
+    }
+
+    if (options.onUpstreamMessage?.(message) === true) return;
+    client.send(text);
+
+    if (message.type === "response.function_call_arguments.done") {
+      toolQueue = toolQueue.then(() => runTool(message));
+    }
+  });
+
+  upstream.on("error", (error) => {
+    console.error(`[${sessionId}] ❌ Relay upstream error:`, error.message);
+  });
+
+  upstream.on("close", (code, reason) => {
+    console.log(`[${sessionId}] 🔌 Relay upstream closed - Code: ${code} ${reason.toString()}`);
+    client.close(CLOSE_UPSTREAM_FAILED, "Realtime API connection closed");
+  });
+
+  return {
+    handleClientMessage: (data: string) => {
+      let message: XAIMessage;
+      try {
+        message = JSON.parse(data);
+      } catch {
+        console.error(`[${sessionId}] ⚠️ Dropping malformed relay message`);
+        return;
+      }
+
+      // Instructions and tools are the server's to choose
+      if (message.type === "session.update") {
+        const { instructions: _instructions, tools: _tools, ...settings } = message.session ?? {};
+        clientSession = settings;
+        configureSession();
+        return;
+      }
+
+      sendUpstream(message);
+    },
+    sendUpstream,
+    close: () => {
+      if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) {
+        upstream.close();
+      }
+    },
+  };
+}
+
+/**
+ * Serve a relay over a browser WebSocket opened on the relay endpoint, with
+ * `session_id` and the user's auth `token` as query parameters
+ */
+export async function handleRelayConnection(
+  client: WebSocket,
+  req: Request,
+  provider: RealtimeProvider,
+) {
+  // Hold on to anything the browser sends while the session is being checked
+  const early: RawData[] = [];
+  const bufferEarly = (data: RawData) => early.push(data);
+  client.on("message", bufferEarly);
+  // The browser can give up while the session is being set up
+  let clientClosed = false;
+  client.once("close", () => {
+    clientClosed = true;
+  });
+
+  const sessionId = typeof req.query.session_id === "string" ? req.query.session_id : "";
+  const token = typeof req.query.token === "string" ? req.query.token : "";
+  const auth = await authenticateRealtime(sessionId, token);
+
+  if (!auth.ok) {
+    client.close(auth.code, auth.reason);
+    return;
+  }
+  if (clientClosed) return;
+
+  const relay = await createRelay({
+    sessionId,
+    userId: auth.userId,
+    session: auth.session,
+    provider,
+    client: {
+      send: (data) => {
+        if (client.readyState === WebSocket.OPEN) client.send(data);
+      },
+      close: (code, reason) => {
+        if (client.readyState === WebSocket.OPEN) client.close(code, reason);
+      },
+    },
+  });
+
+  if (clientClosed) {
+    console.log(`[${sessionId}] 🔌 Relay client disconnected during setup`);
+    relay.close();
+    return;
+  }
+
+  client.off("message", bufferEarly);
+  client.on("message", (data: RawData) => relay.handleClientMessage(data.toString()));
+  early.splice(0).forEach((data) => relay.handleClientMessage(data.toString()));
+
+  client.on("close", () => {
+    console.log(`[${sessionId}] 🔌 Relay client disconnected`);
+    relay.close();
+  });
+}
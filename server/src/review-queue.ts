@@ -0,0 +1,142 @@
+/**
+ * Per-session review queue
+ *
+ * Each review sitting keeps its own queue on the session record so concurrent
+ * sessions never interfere with each other. The queue records which cards are still
+ * pending, which were served and in what order, and how each one was graded.
+ */
+
+import { ObjectId } from "mongodb";
+import type { WithId } from "mongodb";
+import type { FlashcardDocument } from "./flashcards";
+import type { ReviewGrade } from "./scheduler";
+import { getStorage } from "./storage";
+
+/**
+ * Maximum number of due cards pulled into the queue at a time
+ */
+const QUEUE_BATCH_SIZE = 20;
+
+export interface ServedCard {
+  flashcardId: ObjectId;
+  servedAt: Date;
+  grade?: ReviewGrade;
+}
+
+/**
+ * Review state stored under `review` on the session record
+ */
+export interface ReviewQueueState {
+  pending: ObjectId[];
+  served: ServedCard[];
+  total: number;
+  startedAt: Date;
+}
+
+export interface ReviewProgress {
+  reviewed: number;
+  // Served, then moved on from without a grade
+  skipped: number;
+  total: number;
+  remaining: number;
+}
+
+/**
+ * Where the sitting stands. With `awaitingGrade`, the card served last is still out
+ * and doesn't count as skipped yet.
+ */
+function progressOf(state: ReviewQueueState, awaitingGrade: boolean): ReviewProgress {
+  const reviewed = state.served.filter((s) => s.grade).length;
+  const ungraded = state.served.length - reviewed;
+  const skipped = awaitingGrade && ungraded > 0 ? ungraded - 1 : ungraded;
+  return { reviewed, skipped, total: state.total, remaining: state.total - reviewed - skipped };
+}
+
+/**
+ * Load the due cards not yet served in this sitting, most overdue first
+ */
+async function loadDueBatch(userId: ObjectId, exclude: ObjectId[]): Promise<ObjectId[]> {
+  const cards = await getStorage().flashcards.find(userId, {
+    due: true,
+    excludeIds: exclude,
+    sort: { field: "dueAt", direction: 1 },
+    limit: QUEUE_BATCH_SIZE,
+  });
+  return cards.map((c) => c._id);
+}
+
+/**
+ * Serve the next card in the session's queue, topping the queue up with newly due
+ * cards when it runs dry. Returns a null flashcard when nothing is left to review.
+ */
+export async function serveNextFlashcard(
+  sessionId: string,
+  userId: string,
+): Promise<{ flashcard: WithId<FlashcardDocument> | null; progress: ReviewProgress }> {
+  const storage = getStorage();
+  const owner = new ObjectId(userId);
+  const session = await storage.sessions.findOne(sessionId, owner);
+  const state: ReviewQueueState = session?.review ?? {
+    pending: [],
+    served: [],
+    total: 0,
+    startedAt: new Date(),
+  };
+
+  let flashcard: WithId<FlashcardDocument> | null = null;
+  while (!flashcard) {
+    if (state.pending.length === 0) {
+      const batch = await loadDueBatch(
+        owner,
+        state.served.map((s) => s.flashcardId),
+      );
+      if (batch.length === 0) break;
+      state.pending.push(...batch);
+      state.total += batch.length;
+    }
+
+    const nextId = state.pending.shift()!;
+    flashcard = await storage.flashcards.findById(owner, nextId);
+    if (!flashcard) {
+      // Deleted since it was queued
+      state.total -= 1;
+    }
+  }
+
+  if (flashcard) {
+    state.served.push({ flashcardId: flashcard._id, servedAt: new Date() });
+  }
+
+  await storage.sessions.update(sessionId, owner, {
+    review: state,
+    currentFlashcardId: flashcard?._id ?? null,
+  });
+
+  return { flashcard, progress: progressOf(state, flashcard !== null) };
+}
+
+/**
+ * Record the grade for the most recently served copy of a card
+ */
+export async function recordQueuedGrade(
+  sessionId: string,
+  userId: string,
+  flashcardId: ObjectId,
+  grade: ReviewGrade,
+): Promise<ReviewProgress | null> {
+  const storage = getStorage();
+  const owner = new ObjectId(userId);
+  const session = await storage.sessions.findOne(sessionId, owner);
+  const state = session?.review;
+  if (!state) return null;
+
+  const entry = [...state.served]
+    .reverse()
+    .find((s) => s.flashcardId.equals(flashcardId) && !s.grade);
+  if (entry) {
+    entry.grade = grade;
+    await storage.sessions.update(sessionId, owner, { review: state });
+  }
+
+  return progressOf(state, false);
+}
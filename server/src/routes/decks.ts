@@ -0,0 +1,82 @@
+/**
+ * Deck import and export endpoints, mounted alongside the flashcard routes
+ */
+
+import express, { Router } from "express";
+import { requireAuth } from "../auth";
+import { DECK_FORMATS, DECK_FORMAT_NAMES, importCards, loadCardsForExport } from "../decks";
+import { MAX_TOPIC_LENGTH } from "../flashcards";
+import { readBoolean, readEnum, readString, sendValidationErrors } from "../validation";
+import type { FieldError } from "../validation";
+
+export const decksRouter = Router();
+decksRouter.use(requireAuth);
+
+const DEFAULT_IMPORT_TOPIC = "Imported";
+const MAX_IMPORT_SIZE = "5mb";
+
+// Export the user's flashcards as a downloadable deck file
+decksRouter.get("/export", async (req, res) => {
+  try {
+    const query = req.query as Record<string, unknown>;
+    const errors: FieldError[] = [];
+    const format = readEnum(query, "format", errors, DECK_FORMAT_NAMES) ?? "json";
+    const topic = readString(query, "topic", errors, { maxLength: MAX_TOPIC_LENGTH });
+
+    if (errors.length > 0) return sendValidationErrors(res, errors);
+
+    const deck = DECK_FORMATS[format];
+    const cards = await loadCardsForExport(res.locals.userId as string, topic);
+    const name = topic ? topic.replace(/[^\w-]+/g, "_") : "all";
+
+    console.log(`📤 Exporting ${cards.length} flashcards as ${format}`);
+    res
+      .type(deck.contentType)
+      .attachment(`groklearn-${name}.${deck.extension}`)
+      .send(deck.serialize(cards));
+  } catch (error) {
+    console.error("❌ Error exporting flashcards:", error);
+    res.status(500).json({
+      error: "Failed to export flashcards",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Import flashcards from an uploaded deck file (sent as the raw request body). With
+// dryRun=true, report what would be created, updated and skipped without saving.
+decksRouter.post(
+  "/import",
+  express.text({ type: "*/*", limit: MAX_IMPORT_SIZE }),
+  async (req, res) => {
+    try {
+      const query = req.query as Record<string, unknown>;
+      const errors: FieldError[] = [];
+      const format = readEnum(query, "format", errors, DECK_FORMAT_NAMES) ?? "json";
+      const topic =
+        readString(query, "topic", errors, { maxLength: MAX_TOPIC_LENGTH }) ?? DEFAULT_IMPORT_TOPIC;
+      const dryRun = readBoolean(query, "dryRun", errors) ?? false;
+
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        errors.push({ field: "body", message: "must contain the deck file" });
+      }
+
+      if (errors.length > 0) return sendValidationErrors(res, errors);
+
+      const parsed = DECK_FORMATS[format].parse(req.body, topic);
+      const result = await importCards(res.locals.userId as string, parsed.cards, { dryRun });
+      const { created, updated, skipped } = result.summary;
+
+      console.log(
+        `📥 ${dryRun ? "Previewed" : "Imported"} ${format} deck: ${created} created, ${updated} updated, ${skipped} skipped`,
+      );
+      res.json({ dryRun, ...result, errors: [...parsed.errors, ...result.errors] });
+    } catch (error) {
+      console.error("❌ Error importing flashcards:", error);
+      res.status(500).json({
+        error: "Failed to import flashcards",
+        details: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  },
+);
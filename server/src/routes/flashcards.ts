@@ -0,0 +1,238 @@
+/**
+ * Flashcard management REST endpoints
+ *
+ * All routes are scoped to the authenticated user. Error bodies always have the shape
+ * `{ error, details? }`, where validation failures list each bad field in `details`.
+ */
+
+import { Router } from "express";
+import type { Response } from "express";
+import { ObjectId } from "mongodb";
+import type { WithId } from "mongodb";
+import { requireAuth } from "../auth";
+import { MAX_TOPIC_LENGTH, newFlashcardDocument, readFlashcardInput } from "../flashcards";
+import type { FlashcardDocument, FlashcardInput } from "../flashcards";
+import { FLASHCARD_SORT_FIELDS, getStorage } from "../storage";
+import type { FlashcardSortField } from "../storage";
+import {
+  readBoolean,
+  readDate,
+  readEnum,
+  readInteger,
+  readObjectIds,
+  readString,
+  sendValidationErrors,
+} from "../validation";
+import type { FieldError } from "../validation";
+
+export const flashcardsRouter = Router();
+flashcardsRouter.use(requireAuth);
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_BULK_DELETE = 500;
+
+const SORT_OPTIONS = FLASHCARD_SORT_FIELDS.flatMap((f) => [f, `-${f}`]);
+
+const DATE_SORT_FIELDS: FlashcardSortField[] = ["createdAt", "dueAt"];
+
+interface Cursor {
+  value: string;
+  id: string;
+}
+
+function encodeCursor(field: FlashcardSortField, doc: WithId<FlashcardDocument>): string {
+  const value = doc[field] instanceof Date ? doc[field].toISOString() : String(doc[field] ?? "");
+  const cursor: Cursor = { value, id: doc._id.toString() };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Read a cursor for the given sort field, or null if it isn't a valid one
+ */
+function decodeCursor(
+  raw: string,
+  field: FlashcardSortField,
+): { value: Date | string; id: ObjectId } | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (typeof cursor?.value !== "string" || !ObjectId.isValid(cursor?.id)) return null;
+    const id = new ObjectId(cursor.id);
+    if (!DATE_SORT_FIELDS.includes(field)) return { value: cursor.value, id };
+
+    const value = new Date(cursor.value);
+    return Number.isNaN(value.getTime()) ? null : { value, id };
+  } catch {
+    return null;
+  }
+}
+
+function ownerId(locals: Record<string, unknown>): ObjectId {
+  return new ObjectId(locals.userId as string);
+}
+
+function serverError(res: Response, message: string, error: unknown) {
+  console.error(`❌ ${message}:`, error);
+  res.status(500).json({
+    error: message,
+    details: error instanceof Error ? error.message : "Unknown error",
+  });
+}
+
+// List flashcards with filtering, sorting and cursor pagination
+flashcardsRouter.get("/", async (req, res) => {
+  try {
+    const query = req.query as Record<string, unknown>;
+    const errors: FieldError[] = [];
+
+    const topic = readString(query, "topic", errors, { maxLength: MAX_TOPIC_LENGTH });
+    const search = readString(query, "q", errors, { maxLength: 200 });
+    const createdAfter = readDate(query, "createdAfter", errors);
+    const createdBefore = readDate(query, "createdBefore", errors);
+    const due = readBoolean(query, "due", errors);
+    const sort = readEnum(query, "sort", errors, SORT_OPTIONS) ?? "-createdAt";
+    const field = sort.replace(/^-/, "") as FlashcardSortField;
+    const direction = sort.startsWith("-") ? -1 : 1;
+    const limit =
+      readInteger(query, "limit", errors, { min: 1, max: MAX_PAGE_SIZE }) ?? DEFAULT_PAGE_SIZE;
+    const rawCursor = readString(query, "cursor", errors);
+    const cursor = rawCursor ? decodeCursor(rawCursor, field) : null;
+    if (rawCursor && !cursor) errors.push({ field: "cursor", message: "is invalid" });
+
+    if (errors.length > 0) return sendValidationErrors(res, errors);
+
+    const page = await getStorage().flashcards.find(ownerId(res.locals), {
+      ...(topic ? { topic } : {}),
+      search,
+      createdAfter,
+      createdBefore,
+      due,
+      sort: { field, direction },
+      ...(cursor ? { after: cursor } : {}),
+      limit: limit + 1,
+    });
+
+    const hasMore = page.length > limit;
+    const flashcards = hasMore ? page.slice(0, limit) : page;
+
+    res.json({
+      flashcards,
+      nextCursor: hasMore ? encodeCursor(field, flashcards[flashcards.length - 1]) : null,
+    });
+  } catch (error) {
+    serverError(res, "Failed to fetch flashcards", error);
+  }
+});
+
+// Get a single flashcard
+flashcardsRouter.get("/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ error: "Invalid flashcard ID" });
+    }
+
+    const flashcard = await getStorage().flashcards.findById(ownerId(res.locals), new ObjectId(id));
+
+    if (!flashcard) {
+      return res.status(404).json({ error: "Flashcard not found" });
+    }
+
+    res.json({ flashcard });
+  } catch (error) {
+    serverError(res, "Failed to fetch flashcard", error);
+  }
+});
+
+// Create a flashcard
+flashcardsRouter.post("/", async (req, res) => {
+  try {
+    const errors: FieldError[] = [];
+    const input = readFlashcardInput(req.body ?? {}, errors) as FlashcardInput;
+
+    if (errors.length > 0) return sendValidationErrors(res, errors);
+
+    const doc = newFlashcardDocument(res.locals.userId as string, input);
+    const insertedId = await getStorage().flashcards.create(doc);
+
+    console.log(`📝 Created flashcard via API: ${insertedId}`);
+    res.status(201).json({ flashcard: { _id: insertedId, ...doc } });
+  } catch (error) {
+    serverError(res, "Failed to create flashcard", error);
+  }
+});
+
+// Update a flashcard's question, answer or topic
+flashcardsRouter.patch("/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ error: "Invalid flashcard ID" });
+    }
+
+    const errors: FieldError[] = [];
+    const updates = readFlashcardInput(req.body ?? {}, errors, { partial: true });
+    if (errors.length === 0 && Object.keys(updates).length === 0) {
+      errors.push({ field: "body", message: "must include question, answer or topic" });
+    }
+
+    if (errors.length > 0) return sendValidationErrors(res, errors);
+
+    const flashcard = await getStorage().flashcards.update(ownerId(res.locals), new ObjectId(id), {
+      ...updates,
+      updatedAt: new Date(),
+    });
+
+    if (!flashcard) {
+      return res.status(404).json({ error: "Flashcard not found" });
+    }
+
+    console.log(`✏️ Updated flashcard: ${id}`);
+    res.json({ flashcard });
+  } catch (error) {
+    serverError(res, "Failed to update flashcard", error);
+  }
+});
+
+// Delete several flashcards at once
+flashcardsRouter.delete("/", async (req, res) => {
+  try {
+    const errors: FieldError[] = [];
+    const ids = readObjectIds(req.body ?? {}, "ids", errors, { maxItems: MAX_BULK_DELETE });
+
+    if (errors.length > 0 || !ids) return sendValidationErrors(res, errors);
+
+    const deletedCount = await getStorage().flashcards.delete(ownerId(res.locals), ids);
+
+    console.log(`🗑️ Deleted ${deletedCount} flashcards`);
+    res.json({ success: true, deletedCount });
+  } catch (error) {
+    serverError(res, "Failed to delete flashcards", error);
+  }
+});
+
+// Delete a flashcard
+flashcardsRouter.delete("/:id", async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!ObjectId.isValid(id)) {
+      return res.status(400).json({ error: "Invalid flashcard ID" });
+    }
+
+    const deletedCount = await getStorage().flashcards.delete(ownerId(res.locals), [
+      new ObjectId(id),
+    ]);
+
+    if (deletedCount === 0) {
+      return res.status(404).json({ error: "Flashcard not found" });
+    }
+
+    console.log(`🗑️ Deleted flashcard: ${id}`);
+    res.json({ success: true });
+  } catch (error) {
+    serverError(res, "Failed to delete flashcard", error);
+  }
+});
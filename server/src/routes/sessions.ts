@@ -0,0 +1,206 @@
+/**
+ * Past session endpoints - browse sessions and their stored transcripts
+ */
+
+import { Router } from "express";
+import { ObjectId } from "mongodb";
+import { requireAuth } from "../auth";
+import type { SessionRecord } from "../sessions";
+import { getStorage } from "../storage";
+import {
+  CLIENT_TRANSCRIPT_ROLES,
+  MAX_TRANSCRIPT_CONTENT_LENGTH,
+  appendTranscript,
+  loadTranscript,
+} from "../transcripts";
+import type { TranscriptEntryInput } from "../transcripts";
+import { readDate, readEnum, readInteger, readString, sendValidationErrors } from "../validation";
+import type { FieldError } from "../validation";
+
+export const sessionsRouter = Router();
+sessionsRouter.use(requireAuth);
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_ENTRIES_PER_REQUEST = 50;
+const PREVIEW_LENGTH = 120;
+
+interface Cursor {
+  createdAt: string;
+  sessionId: string;
+}
+
+function encodeCursor(session: SessionRecord): string {
+  const cursor: Cursor = {
+    createdAt: session.createdAt.toISOString(),
+    sessionId: session.sessionId,
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Read a cursor from a previous page, or null if it isn't a valid one
+ */
+function decodeCursor(raw: string): { createdAt: Date; sessionId: string } | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (typeof cursor?.createdAt !== "string" || typeof cursor?.sessionId !== "string") {
+      return null;
+    }
+    const createdAt = new Date(cursor.createdAt);
+    return Number.isNaN(createdAt.getTime()) ? null : { createdAt, sessionId: cursor.sessionId };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find a session owned by the user, expired or not
+ */
+async function findOwnedSession(sessionId: string, userId: string) {
+  return getStorage().sessions.findOne(sessionId, new ObjectId(userId));
+}
+
+// List the user's past sessions, newest first. Pass `nextCursor` back as `cursor` to
+// get the next page.
+sessionsRouter.get("/", async (req, res) => {
+  try {
+    const query = req.query as Record<string, unknown>;
+    const errors: FieldError[] = [];
+    const limit =
+      readInteger(query, "limit", errors, { min: 1, max: MAX_PAGE_SIZE }) ?? DEFAULT_PAGE_SIZE;
+    const rawCursor = readString(query, "cursor", errors);
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+    if (rawCursor && !cursor) errors.push({ field: "cursor", message: "is invalid" });
+
+    if (errors.length > 0) return sendValidationErrors(res, errors);
+
+    const storage = getStorage();
+    const userId = new ObjectId(res.locals.userId as string);
+    const sessions = await storage.sessions.find(userId, {
+      ...(cursor ? { after: cursor } : {}),
+      limit: limit + 1,
+    });
+
+    const page = sessions.slice(0, limit);
+    const sessionIds = page.map((s) => s.sessionId);
+
+    const [overviews, cardCounts] = await Promise.all([
+      storage.transcripts.overviews(userId, sessionIds),
+      storage.flashcards.countBySession(userId, sessionIds),
+    ]);
+
+    res.json({
+      sessions: page.map((s) => ({
+        sessionId: s.sessionId,
+        agent: s.agent,
+        topic: s.topic,
+        createdAt: s.createdAt,
+        turns: overviews.get(s.sessionId)?.turns ?? 0,
+        flashcardsCreated: cardCounts.get(s.sessionId) ?? 0,
+        preview: overviews.get(s.sessionId)?.firstAssistantLine?.slice(0, PREVIEW_LENGTH),
+      })),
+      nextCursor: sessions.length > limit ? encodeCursor(page[page.length - 1]) : null,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching sessions:", error);
+    res.status(500).json({
+      error: "Failed to fetch sessions",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Get a session's full transcript and the flashcards created during it
+sessionsRouter.get("/:id", async (req, res) => {
+  try {
+    const userId = res.locals.userId as string;
+    const session = await findOwnedSession(req.params.id, userId);
+
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const [entries, flashcards] = await Promise.all([
+      loadTranscript(session.sessionId, userId),
+      getStorage().flashcards.find(new ObjectId(userId), {
+        sessionId: session.sessionId,
+        sort: { field: "createdAt", direction: 1 },
+      }),
+    ]);
+
+    res.json({
+      session: {
+        sessionId: session.sessionId,
+        agent: session.agent,
+        topic: session.topic,
+        createdAt: session.createdAt,
+      },
+      entries: entries.map(({ sessionId: _sessionId, userId: _userId, ...entry }) => entry),
+      flashcards: flashcards.map(({ _id, question, answer, topic, createdAt }) => ({
+        _id,
+        question,
+        answer,
+        topic,
+        createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error("❌ Error fetching transcript:", error);
+    res.status(500).json({
+      error: "Failed to fetch transcript",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Append finished user and assistant turns to a session's transcript
+sessionsRouter.post("/:id/transcript", async (req, res) => {
+  try {
+    const userId = res.locals.userId as string;
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const errors: FieldError[] = [];
+    const entries: TranscriptEntryInput[] = [];
+
+    if (!Array.isArray(body.entries) || body.entries.length === 0) {
+      errors.push({ field: "entries", message: "must be a non-empty array" });
+    } else if (body.entries.length > MAX_ENTRIES_PER_REQUEST) {
+      errors.push({
+        field: "entries",
+        message: `must contain at most ${MAX_ENTRIES_PER_REQUEST} entries`,
+      });
+    } else {
+      body.entries.forEach((raw: unknown, index: number) => {
+        const source = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+        const entryErrors: FieldError[] = [];
+        const role = readEnum(source, "role", entryErrors, CLIENT_TRANSCRIPT_ROLES, {
+          required: true,
+        });
+        const content = readString(source, "content", entryErrors, {
+          required: true,
+          maxLength: MAX_TRANSCRIPT_CONTENT_LENGTH,
+        });
+        const timestamp = readDate(source, "timestamp", entryErrors);
+
+        errors.push(...entryErrors.map((e) => ({ ...e, field: `entries[${index}].${e.field}` })));
+        if (role && content) entries.push({ role, content, timestamp: timestamp ?? new Date() });
+      });
+    }
+
+    if (errors.length > 0) return sendValidationErrors(res, errors);
+
+    const session = await findOwnedSession(req.params.id, userId);
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    await appendTranscript(session.sessionId, userId, entries);
+    res.status(201).json({ saved: entries.length });
+  } catch (error) {
+    console.error("❌ Error saving transcript:", error);
+    res.status(500).json({
+      error: "Failed to save transcript",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
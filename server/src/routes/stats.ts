@@ -0,0 +1,49 @@
+/**
+ * Review statistics endpoint for the progress dashboard
+ */
+
+import { Router } from "express";
+import { requireAuth } from "../auth";
+import { loadStats } from "../stats";
+import { readInteger, sendValidationErrors } from "../validation";
+import type { FieldError } from "../validation";
+
+export const statsRouter = Router();
+statsRouter.use(requireAuth);
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+const DEFAULT_FORECAST_DAYS = 14;
+const MAX_FORECAST_DAYS = 90;
+const MAX_TZ_OFFSET = 14 * 60;
+
+// Get the user's review statistics. `tzOffset` is the browser's
+// Date.getTimezoneOffset() so days line up with the learner's calendar.
+statsRouter.get("/", async (req, res) => {
+  try {
+    const query = req.query as Record<string, unknown>;
+    const errors: FieldError[] = [];
+    const days = readInteger(query, "days", errors, { min: 1, max: MAX_DAYS }) ?? DEFAULT_DAYS;
+    const forecastDays =
+      readInteger(query, "forecastDays", errors, { min: 1, max: MAX_FORECAST_DAYS }) ??
+      DEFAULT_FORECAST_DAYS;
+    const tzOffset =
+      readInteger(query, "tzOffset", errors, { min: -MAX_TZ_OFFSET, max: MAX_TZ_OFFSET }) ?? 0;
+
+    if (errors.length > 0) return sendValidationErrors(res, errors);
+
+    const stats = await loadStats(res.locals.userId as string, {
+      now: new Date(),
+      days,
+      forecastDays,
+      tzOffset,
+    });
+    res.json(stats);
+  } catch (error) {
+    console.error("❌ Error computing stats:", error);
+    res.status(500).json({
+      error: "Failed to compute stats",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
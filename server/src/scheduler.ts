@@ -0,0 +1,127 @@
+/**
+ * Spaced repetition scheduler (SM-2)
+ *
+ * Each flashcard carries its own scheduling state. After every review the state is
+ * advanced based on how well the user recalled the card, and the card becomes due
+ * again after the resulting interval.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_EASE = 2.5;
+const MINIMUM_EASE = 1.3;
+
+/**
+ * How well the user recalled a card, from forgotten to effortless
+ */
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+/**
+ * SM-2 recall quality for each grade
+ */
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export function isReviewGrade(value: unknown): value is ReviewGrade {
+  return typeof value === "string" && (REVIEW_GRADES as string[]).includes(value);
+}
+
+export function gradeToQuality(grade: ReviewGrade): number {
+  return GRADE_QUALITY[grade];
+}
+
+/**
+ * Whether a grade counts as a successful recall
+ */
+export function isPassingGrade(grade: ReviewGrade): boolean {
+  return grade !== "again";
+}
+
+/**
+ * Scheduling fields stored on every flashcard document
+ */
+export interface ScheduleState {
+  ease: number;
+  interval: number; // days
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+  lastReviewedAt?: Date;
+}
+
+/**
+ * Scheduling state for a brand new card - due immediately
+ */
+export function initialSchedule(now: Date = new Date()): ScheduleState {
+  return {
+    ease: DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now,
+  };
+}
+
+/**
+ * Read the scheduling state from a flashcard document, filling in defaults for
+ * cards created before scheduling existed
+ */
+export function scheduleFromDocument(doc: Record<string, unknown>): ScheduleState {
+  const fallback = initialSchedule((doc.createdAt as Date | undefined) ?? new Date());
+  return {
+    ease: typeof doc.ease === "number" ? doc.ease : fallback.ease,
+    interval: typeof doc.interval === "number" ? doc.interval : fallback.interval,
+    repetitions: typeof doc.repetitions === "number" ? doc.repetitions : fallback.repetitions,
+    lapses: typeof doc.lapses === "number" ? doc.lapses : fallback.lapses,
+    dueAt: doc.dueAt instanceof Date ? doc.dueAt : fallback.dueAt,
+    lastReviewedAt: doc.lastReviewedAt instanceof Date ? doc.lastReviewedAt : undefined,
+  };
+}
+
+/**
+ * Advance a card's schedule after a review.
+ *
+ * `quality` is the SM-2 recall quality from 0 (complete blackout) to 5 (perfect).
+ * Anything below 3 counts as a lapse and restarts the card's repetitions.
+ */
+export function applyReview(
+  state: ScheduleState,
+  quality: number,
+  now: Date = new Date(),
+): ScheduleState {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+
+  let { repetitions, interval, lapses } = state;
+
+  if (q >= 3) {
+    if (repetitions === 0) {
+      interval = 1;
+    } else if (repetitions === 1) {
+      interval = 6;
+    } else {
+      interval = Math.round(interval * state.ease);
+    }
+    repetitions += 1;
+  } else {
+    repetitions = 0;
+    interval = 1;
+    lapses += 1;
+  }
+
+  const ease = Math.max(MINIMUM_EASE, state.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    interval,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + interval * DAY_MS),
+    lastReviewedAt: now,
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Server-issued realtime sessions
+ *
+ * Every conversation gets a session record minted by `POST /session`. The session ID
+ * is signed and bound to the user it was issued for, and the record pins the agent,
+ * so tool calls can only run tools from that agent's toolset until the session expires.
+ */
+
+import crypto from "crypto";
+import { ObjectId } from "mongodb";
+import { getStorage } from "./storage";
+import { sign, verifySignature } from "./auth";
+import type { AgentName } from "./agents";
+import type { ReviewQueueState } from "./review-queue";
+
+// Sessions expire this long after they were created or last refreshed
+export const SESSION_TTL_MS = 2 * 60 * 60 * 1000; // 2 hours
+
+/**
+ * Session as stored
+ */
+export interface SessionRecord {
+  sessionId: string;
+  userId: ObjectId;
+  agent: AgentName;
+  topic?: string;
+  createdAt: Date;
+  expiresAt: Date;
+  // Set once the review agent starts serving cards
+  review?: ReviewQueueState;
+  currentFlashcardId?: ObjectId | null;
+  // Only runs the agent's tools, with no conversation to look back on
+  offline?: boolean;
+}
+
+export type SessionLookup =
+  { ok: true; session: SessionRecord } | { ok: false; status: number; error: string };
+
+/**
+ * Mint a new session for a user and agent
+ */
+export async function createSession(
+  userId: string,
+  agent: AgentName,
+  topic?: string,
+  options: { offline?: boolean } = {},
+): Promise<SessionRecord> {
+  const nonce = crypto.randomBytes(16).toString("hex");
+  const now = new Date();
+  const session: SessionRecord = {
+    sessionId: `${nonce}.${sign(`${nonce}.${userId}`)}`,
+    userId: new ObjectId(userId),
+    agent,
+    ...(topic ? { topic } : {}),
+    ...(options.offline ? { offline: true } : {}),
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+  };
+
+  await getStorage().sessions.create(session);
+  return session;
+}
+
+/**
+ * Look up an unexpired session belonging to the given user
+ */
+export async function findActiveSession(sessionId: string, userId: string): Promise<SessionLookup> {
+  const [nonce, signature] = sessionId.split(".");
+  if (!nonce || !signature || !verifySignature(`${nonce}.${userId}`, signature)) {
+    return { ok: false, status: 403, error: "Unknown session" };
+  }
+
+  const session = await getStorage().sessions.findOne(sessionId, new ObjectId(userId));
+
+  if (!session) {
+    return { ok: false, status: 403, error: "Unknown session" };
+  }
+  if (session.expiresAt.getTime() < Date.now()) {
+    return { ok: false, status: 403, error: "Session expired" };
+  }
+
+  return { ok: true, session };
+}
+
+/**
+ * Keep an active session going for another SESSION_TTL_MS from now
+ */
+export async function extendSession(session: SessionRecord): Promise<SessionRecord> {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await getStorage().sessions.update(session.sessionId, session.userId, { expiresAt });
+  return { ...session, expiresAt };
+}
+
+/**
+ * Point a session at a different agent, so tool calls are checked against the new
+ * agent's toolset from now on
+ */
+export async function switchSessionAgent(
+  sessionId: string,
+  userId: string,
+  agent: AgentName,
+  topic?: string,
+): Promise<void> {
+  await getStorage().sessions.update(sessionId, new ObjectId(userId), { agent, topic });
+}
@@ -0,0 +1,277 @@
+/**
+ * Review statistics
+ *
+ * Everything here is computed from a user's flashcards and the `attempts` recorded
+ * each time an answer is graded. Days are bucketed in the learner's own timezone,
+ * given as a `Date.getTimezoneOffset()` value in minutes.
+ */
+
+import { ObjectId } from "mongodb";
+import { getStorage } from "./storage";
+import { isPassingGrade, isReviewGrade } from "./scheduler";
+import type { AttemptDocument } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HARDEST_CARD_LIMIT = 10;
+const HARDEST_CARD_MIN_REVIEWS = 2;
+
+/**
+ * Gaps since a card's previous review, used to bucket the retention curve
+ */
+const RETENTION_BUCKETS = [
+  { label: "< 1 day", maxDays: 1 },
+  { label: "1-2 days", maxDays: 3 },
+  { label: "3-6 days", maxDays: 7 },
+  { label: "1-2 weeks", maxDays: 14 },
+  { label: "2-4 weeks", maxDays: 30 },
+  { label: "1+ months", maxDays: Infinity },
+];
+
+export interface StatsOptions {
+  now: Date;
+  days: number;
+  forecastDays: number;
+  tzOffset: number;
+}
+
+export interface TopicStats {
+  topic: string;
+  cards: number;
+  reviews: number;
+  correct: number;
+  accuracy: number | null;
+  dueNow: number;
+}
+
+export interface DailyCount {
+  date: string; // YYYY-MM-DD in the learner's timezone
+  reviews: number;
+  correct: number;
+}
+
+export interface RetentionPoint {
+  label: string;
+  reviews: number;
+  recalled: number;
+  rate: number | null;
+}
+
+export interface HardCard {
+  _id: string;
+  question: string;
+  topic: string;
+  reviews: number;
+  accuracy: number;
+  lapses: number;
+}
+
+export interface ReviewStats {
+  totals: {
+    cards: number;
+    reviewedCards: number;
+    reviews: number;
+    accuracy: number | null;
+    dueNow: number;
+  };
+  streak: { current: number; longest: number; reviewedToday: boolean };
+  topics: TopicStats[];
+  reviewsPerDay: DailyCount[];
+  retention: RetentionPoint[];
+  hardestCards: HardCard[];
+  forecast: { date: string; due: number }[];
+}
+
+interface StatsCard {
+  _id: ObjectId;
+  question: string;
+  topic: string;
+  dueAt?: Date;
+  createdAt?: Date;
+  lapses?: number;
+}
+
+interface StatsAttempt {
+  flashcardId?: ObjectId;
+  attemptedAt: Date;
+  correct: boolean;
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole === 0 ? null : part / whole;
+}
+
+/**
+ * Whether an attempt counts as recalled. Attempts from before grades existed only
+ * have `isCorrect`.
+ */
+function attemptPassed(attempt: Pick<AttemptDocument, "grade" | "isCorrect">): boolean {
+  return isReviewGrade(attempt.grade) ? isPassingGrade(attempt.grade) : attempt.isCorrect === true;
+}
+
+/**
+ * Compute statistics from already loaded cards and attempts (attempts oldest first)
+ */
+export function computeStats(
+  cards: StatsCard[],
+  attempts: StatsAttempt[],
+  options: StatsOptions,
+): ReviewStats {
+  const { now, tzOffset } = options;
+  const dayKey = (date: Date) =>
+    new Date(date.getTime() - tzOffset * 60_000).toISOString().slice(0, 10);
+  const today = dayKey(now);
+  const isDue = (card: StatsCard) => (card.dueAt ?? card.createdAt ?? now) <= now;
+
+  // Per-card and per-day tallies
+  const perCard = new Map<string, { reviews: number; correct: number; last?: Date }>();
+  const perDay = new Map<string, { reviews: number; correct: number }>();
+  const retention = RETENTION_BUCKETS.map(({ label }) => ({ label, reviews: 0, recalled: 0 }));
+
+  for (const attempt of attempts) {
+    const day = perDay.get(dayKey(attempt.attemptedAt)) ?? { reviews: 0, correct: 0 };
+    day.reviews += 1;
+    if (attempt.correct) day.correct += 1;
+    perDay.set(dayKey(attempt.attemptedAt), day);
+
+    if (!attempt.flashcardId) continue;
+    const id = attempt.flashcardId.toString();
+    const card = perCard.get(id) ?? { reviews: 0, correct: 0 };
+
+    // A card's first review has no previous recall to measure retention against
+    if (card.last) {
+      const gapDays = (attempt.attemptedAt.getTime() - card.last.getTime()) / DAY_MS;
+      const bucket = RETENTION_BUCKETS.findIndex((b) => gapDays < b.maxDays);
+      retention[bucket].reviews += 1;
+      if (attempt.correct) retention[bucket].recalled += 1;
+    }
+
+    card.reviews += 1;
+    if (attempt.correct) card.correct += 1;
+    card.last = attempt.attemptedAt;
+    perCard.set(id, card);
+  }
+
+  // Topics, counting only attempts on cards that still exist
+  const topics = new Map<string, TopicStats>();
+  for (const card of cards) {
+    const tally = perCard.get(card._id.toString());
+    const topic = topics.get(card.topic) ?? {
+      topic: card.topic,
+      cards: 0,
+      reviews: 0,
+      correct: 0,
+      accuracy: null,
+      dueNow: 0,
+    };
+    topic.cards += 1;
+    topic.reviews += tally?.reviews ?? 0;
+    topic.correct += tally?.correct ?? 0;
+    if (isDue(card)) topic.dueNow += 1;
+    topics.set(card.topic, topic);
+  }
+  for (const topic of topics.values()) {
+    topic.accuracy = ratio(topic.correct, topic.reviews);
+  }
+
+  // One entry per day of the window, oldest first, including days without reviews
+  const reviewsPerDay: DailyCount[] = [];
+  for (let i = options.days - 1; i >= 0; i--) {
+    const date = dayKey(new Date(now.getTime() - i * DAY_MS));
+    reviewsPerDay.push({ date, ...(perDay.get(date) ?? { reviews: 0, correct: 0 }) });
+  }
+
+  // Streaks of consecutive days with at least one review. Today doesn't break the
+  // current streak until it's over.
+  const reviewDays = [...perDay.keys()].sort();
+  let longest = 0;
+  let run = 0;
+  let previous: string | undefined;
+  for (const day of reviewDays) {
+    run = previous && nextDay(previous) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+  const reviewedToday = perDay.has(today);
+  let current = 0;
+  let cursor = reviewedToday ? today : previousDay(today);
+  while (perDay.has(cursor)) {
+    current += 1;
+    cursor = previousDay(cursor);
+  }
+
+  const hardestCards = cards
+    .map((card) => ({ card, tally: perCard.get(card._id.toString()) }))
+    .filter(({ tally }) => tally && tally.reviews >= HARDEST_CARD_MIN_REVIEWS)
+    .map(({ card, tally }) => ({
+      _id: card._id.toString(),
+      question: card.question,
+      topic: card.topic,
+      reviews: tally!.reviews,
+      accuracy: tally!.correct / tally!.reviews,
+      lapses: card.lapses ?? 0,
+    }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.lapses - a.lapses || b.reviews - a.reviews)
+    .slice(0, HARDEST_CARD_LIMIT);
+
+  // Cards coming due per day, with anything already overdue counted today
+  const forecast = Array.from({ length: options.forecastDays }, (_, i) => ({
+    date: dayKey(new Date(now.getTime() + i * DAY_MS)),
+    due: 0,
+  }));
+  const forecastIndex = new Map(forecast.map((entry, i) => [entry.date, i]));
+  for (const card of cards) {
+    const dueAt = card.dueAt ?? card.createdAt ?? now;
+    const index = dueAt <= now ? 0 : forecastIndex.get(dayKey(dueAt));
+    if (index !== undefined) forecast[index].due += 1;
+  }
+
+  const reviews = attempts.length;
+  const correct = attempts.filter((a) => a.correct).length;
+
+  return {
+    totals: {
+      cards: cards.length,
+      reviewedCards: cards.filter((c) => perCard.has(c._id.toString())).length,
+      reviews,
+      accuracy: ratio(correct, reviews),
+      dueNow: cards.filter(isDue).length,
+    },
+    streak: { current, longest, reviewedToday },
+    topics: [...topics.values()].sort((a, b) => a.topic.localeCompare(b.topic)),
+    reviewsPerDay,
+    retention: retention.map((point) => ({ ...point, rate: ratio(point.recalled, point.reviews) })),
+    hardestCards,
+    forecast,
+  };
+}
+
+function nextDay(date: string): string {
+  return new Date(Date.parse(date) + DAY_MS).toISOString().slice(0, 10);
+}
+
+function previousDay(date: string): string {
+  return new Date(Date.parse(date) - DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Load a user's cards and attempts and compute their statistics
+ */
+export async function loadStats(userId: string, options: StatsOptions): Promise<ReviewStats> {
+  const storage = getStorage();
+  const owner = new ObjectId(userId);
+
+  const [cards, attempts] = await Promise.all([
+    storage.flashcards.find(owner),
+    storage.attempts.find(owner),
+  ]);
+
+  return computeStats(
+    cards,
+    attempts.map((a) => ({
+      flashcardId: a.flashcardId,
+      attemptedAt: a.attemptedAt,
+      correct: attemptPassed(a),
+    })),
+    options,
+  );
+}
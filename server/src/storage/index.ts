@@ -0,0 +1,51 @@
+/**
+ * Storage - picks where flashcards, attempts, sessions and transcripts are kept
+ *
+ * Set STORAGE to choose a backend. It defaults to mongo when MONGODB_URI is set and
+ * to memory otherwise, so the server boots without a database.
+ */
+
+import { createMemoryStorage } from "./memory";
+import { createMongoStorage } from "./mongo";
+import type { Storage, StorageName } from "./types";
+
+// IDs are ObjectIds whichever backend is in use
+export { ObjectId } from "mongodb";
+export { FLASHCARD_SORT_FIELDS } from "./types";
+export { claimLegacyData, isLegacyOwner } from "./legacy";
+export type {
+  AttemptDocument,
+  FlashcardQuery,
+  FlashcardSortField,
+  SessionOverview,
+  Storage,
+  StorageName,
+  UserDocument,
+} from "./types";
+
+const storageFactories: Record<StorageName, () => Storage> = {
+  mongo: createMongoStorage,
+  memory: createMemoryStorage,
+};
+
+export const STORAGE_NAMES = Object.keys(storageFactories) as StorageName[];
+
+export function isValidStorage(name: string): name is StorageName {
+  return name in storageFactories;
+}
+
+let storage: Storage | null = null;
+
+/**
+ * The storage backend named by STORAGE, created on first use
+ */
+export function getStorage(): Storage {
+  if (storage) return storage;
+
+  const name = process.env.STORAGE || (process.env.MONGODB_URI ? "mongo" : "memory");
+  if (!isValidStorage(name)) {
+    throw new Error(`Unknown STORAGE "${name}" (expected one of: ${STORAGE_NAMES.join(", ")})`);
+  }
+  storage = storageFactories[name]();
+  return storage;
+}
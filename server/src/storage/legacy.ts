@@ -0,0 +1,45 @@
+/**
+ * Data saved before there were accounts
+ *
+ * Flashcards, attempts, sessions and transcripts from then have no `userId`, so no
+ * account would see them. They go to the account named by LEGACY_OWNER_EMAIL or,
+ * without one, to the first account: when storage is prepared if that account already
+ * exists, otherwise as soon as it signs up.
+ */
+
+import type { ObjectId } from "mongodb";
+import type { Storage } from "./types";
+
+function legacyOwnerEmail(): string | undefined {
+  return process.env.LEGACY_OWNER_EMAIL?.trim().toLowerCase() || undefined;
+}
+
+/**
+ * Whether a newly created account should take over any data still without an owner.
+ * Without LEGACY_OWNER_EMAIL, data is only left over when there were no accounts yet.
+ */
+export function isLegacyOwner(email: string): boolean {
+  const ownerEmail = legacyOwnerEmail();
+  return !ownerEmail || ownerEmail === email;
+}
+
+/**
+ * Give data without an owner to the given account
+ */
+export async function claimLegacyData(storage: Storage, userId: ObjectId): Promise<void> {
+  const claimed = await storage.claimUnowned(userId);
+  if (claimed > 0) {
+    console.log(`👤 Assigned ${claimed} documents from before accounts to ${userId}`);
+  }
+}
+
+/**
+ * Give data without an owner to its account, if that account exists yet
+ */
+export async function migrateLegacyData(storage: Storage): Promise<void> {
+  const ownerEmail = legacyOwnerEmail();
+  const owner = ownerEmail
+    ? await storage.users.findByEmail(ownerEmail)
+    : await storage.users.findFirst();
+  if (owner) await claimLegacyData(storage, owner._id);
+}
@@ -0,0 +1,265 @@
+/**
+ * In-memory storage
+ *
+ * Keeps everything in plain arrays for the lifetime of the process, so the server
+ * boots without a database: for local development, demos and tests. Nothing is
+ * persisted across restarts.
+ */
+
+import { ObjectId } from "mongodb";
+import type { WithId } from "mongodb";
+import type { FlashcardDocument } from "../flashcards";
+import type { SessionRecord } from "../sessions";
+import type { TranscriptEntryDocument } from "../transcripts";
+import type {
+  AttemptDocument,
+  FlashcardQuery,
+  SessionOverview,
+  Storage,
+  UserDocument,
+} from "./types";
+
+/**
+ * Deep copy a document, so callers never share objects with the store
+ */
+function clone<T>(value: T): T {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (value instanceof ObjectId) return value;
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => [k, clone(v)]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Order two field values the way MongoDB sorts them: missing first, then by value
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a === undefined || a === null) return b === undefined || b === null ? 0 : -1;
+  if (b === undefined || b === null) return 1;
+  if (a instanceof ObjectId && b instanceof ObjectId) {
+    return compareValues(a.toHexString(), b.toHexString());
+  }
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function assign<T extends object>(target: T, fields: Partial<T>) {
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) delete target[key as keyof T];
+    else target[key as keyof T] = clone(value) as T[keyof T];
+  }
+}
+
+function matchesFlashcard(card: FlashcardDocument, query: FlashcardQuery, now: Date): boolean {
+  if (query.topic !== undefined && card.topic !== query.topic) return false;
+  if (query.sessionId !== undefined && card.sessionId !== query.sessionId) return false;
+  if (query.search) {
+    const search = query.search.toLowerCase();
+    if (
+      !card.question.toLowerCase().includes(search) &&
+      !card.answer.toLowerCase().includes(search)
+    ) {
+      return false;
+    }
+  }
+  if (query.createdAfter && card.createdAt < query.createdAfter) return false;
+  if (query.createdBefore && card.createdAt > query.createdBefore) return false;
+  if (query.due !== undefined) {
+    const due = !card.dueAt || card.dueAt <= now;
+    if (due !== query.due) return false;
+  }
+  return true;
+}
+
+export function createMemoryStorage(): Storage {
+  const users: WithId<UserDocument>[] = [];
+  const flashcards: WithId<FlashcardDocument>[] = [];
+  const attempts: WithId<AttemptDocument>[] = [];
+  const sessions: SessionRecord[] = [];
+  const transcripts: WithId<TranscriptEntryDocument>[] = [];
+
+  const insert = <T extends object>(into: WithId<T>[], document: T): ObjectId => {
+    const _id = new ObjectId();
+    into.push({ ...clone(document), _id } as WithId<T>);
+    return _id;
+  };
+
+  const findSession = (sessionId: string, userId: ObjectId) =>
+    sessions.find((s) => s.sessionId === sessionId && s.userId.equals(userId));
+
+  const queryFlashcards = (userId: ObjectId, query: FlashcardQuery) => {
+    const now = new Date();
+    const excluded = new Set(query.excludeIds?.map((id) => id.toHexString()));
+    let cards = flashcards.filter(
+      (card) =>
+        card.userId.equals(userId) &&
+        !excluded.has(card._id.toHexString()) &&
+        matchesFlashcard(card, query, now),
+    );
+
+    if (query.sort) {
+      const { field, direction } = query.sort;
+      const order = (a: WithId<FlashcardDocument>, b: WithId<FlashcardDocument>) =>
+        direction * (compareValues(a[field], b[field]) || compareValues(a._id, b._id));
+      cards.sort(order);
+
+      const after = query.after;
+      if (after) {
+        cards = cards.filter(
+          (card) =>
+            direction *
+              (compareValues(card[field], after.value) || compareValues(card._id, after.id)) >
+            0,
+        );
+      }
+    }
+
+    return query.limit ? cards.slice(0, query.limit) : cards;
+  };
+
+  return {
+    name: "memory",
+    label: "In-memory",
+
+    users: {
+      findById: async (id) => clone(users.find((u) => u._id.equals(id)) ?? null),
+      findByEmail: async (email) => clone(users.find((u) => u.email === email) ?? null),
+      findFirst: async () => clone(users[0] ?? null),
+      create: async (user) => {
+        if (users.some((u) => u.email === user.email)) return null;
+        return insert(users, user);
+      },
+    },
+
+    flashcards: {
+      create: async (card) => insert(flashcards, card),
+      findById: async (userId, id) =>
+        clone(flashcards.find((c) => c._id.equals(id) && c.userId.equals(userId)) ?? null),
+      find: async (userId, query = {}) => clone(queryFlashcards(userId, query)),
+      count: async (userId, query = {}) => queryFlashcards(userId, query).length,
+      topics: async (userId) => [
+        ...new Set(flashcards.filter((c) => c.userId.equals(userId)).map((c) => c.topic)),
+      ],
+      countBySession: async (userId, sessionIds) => {
+        const counts = new Map<string, number>();
+        for (const card of flashcards) {
+          if (!card.userId.equals(userId) || !card.sessionId) continue;
+          if (!sessionIds.includes(card.sessionId)) continue;
+          counts.set(card.sessionId, (counts.get(card.sessionId) ?? 0) + 1);
+        }
+        return counts;
+      },
+      update: async (userId, id, fields) => {
+        const card = flashcards.find((c) => c._id.equals(id) && c.userId.equals(userId));
+        if (!card) return null;
+        assign(card, fields);
+        return clone(card);
+      },
+      recordReview: async (id, schedule, grade) => {
+        const card = flashcards.find((c) => c._id.equals(id));
+        if (!card) return;
+        assign(card, schedule);
+        card.gradeCounts = { ...card.gradeCounts, [grade]: (card.gradeCounts?.[grade] ?? 0) + 1 };
+      },
+      delete: async (userId, ids) => {
+        let deleted = 0;
+        for (let i = flashcards.length - 1; i >= 0; i--) {
+          const card = flashcards[i];
+          if (card.userId.equals(userId) && ids.some((id) => id.equals(card._id))) {
+            flashcards.splice(i, 1);
+            deleted++;
+          }
+        }
+        return deleted;
+      },
+    },
+
+    attempts: {
+      create: async (documents) => {
+        documents.forEach((attempt) => insert(attempts, attempt));
+      },
+      find: async (userId, filter = {}) =>
+        clone(
+          attempts
+            .filter(
+              (a) =>
+                a.userId.equals(userId) &&
+                (filter.sessionId === undefined || a.sessionId === filter.sessionId),
+            )
+            .sort((a, b) => compareValues(a.attemptedAt, b.attemptedAt)),
+        ),
+    },
+
+    sessions: {
+      create: async (session) => {
+        sessions.push(clone(session));
+      },
+      findOne: async (sessionId, userId) => clone(findSession(sessionId, userId) ?? null),
+      find: async (userId, { after, limit }) => {
+        type Position = Pick<SessionRecord, "createdAt" | "sessionId">;
+        const newestFirst = (a: Position, b: Position) =>
+          compareValues(b.createdAt, a.createdAt) || compareValues(b.sessionId, a.sessionId);
+        return clone(
+          sessions
+            .filter(
+              (s) => s.userId.equals(userId) && !s.offline && (!after || newestFirst(s, after) > 0),
+            )
+            .sort(newestFirst)
+            .slice(0, limit),
+        );
+      },
+      update: async (sessionId, userId, fields) => {
+        const session = findSession(sessionId, userId);
+        if (session) assign(session, fields);
+      },
+    },
+
+    transcripts: {
+      append: async (entries) => {
+        entries.forEach((entry) => insert(transcripts, entry));
+      },
+      // Array.sort is stable, so entries with the same timestamp stay in insertion order
+      find: async (sessionId, userId) =>
+        clone(
+          transcripts
+            .filter((e) => e.sessionId === sessionId && e.userId.equals(userId))
+            .sort((a, b) => compareValues(a.timestamp, b.timestamp)),
+        ),
+      overviews: async (userId, sessionIds) => {
+        const overviews = new Map<string, SessionOverview>();
+        const ordered = transcripts
+          .filter((e) => e.userId.equals(userId) && sessionIds.includes(e.sessionId))
+          .filter((e) => e.role === "user" || e.role === "assistant")
+          .sort((a, b) => compareValues(a.timestamp, b.timestamp));
+
+        for (const entry of ordered) {
+          const overview = overviews.get(entry.sessionId) ?? { turns: 0 };
+          overview.turns += 1;
+          if (entry.role === "assistant") overview.firstAssistantLine ??= entry.content;
+          overviews.set(entry.sessionId, overview);
+        }
+        return overviews;
+      },
+    },
+
+    // Nothing outlives the process, so there's nothing to migrate
+    prepare: async () => {},
+    claimUnowned: async (userId) => {
+      let claimed = 0;
+      for (const document of [...flashcards, ...attempts, ...sessions, ...transcripts]) {
+        if (document.userId) continue;
+        document.userId = userId;
+        claimed++;
+      }
+      return claimed;
+    },
+    close: async () => {},
+  };
+}
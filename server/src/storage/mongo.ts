@@ -0,0 +1,270 @@
+/**
+ * MongoDB storage
+ *
+ * One collection per repository: `users`, `flashcards`, `attempts`, `sessions` and
+ * `transcripts`, in the database named by MONGODB_URI.
+ */
+
+import { MongoServerError } from "mongodb";
+import type { Filter, ObjectId, Sort } from "mongodb";
+import { closeDb, getDb } from "../db";
+import type { FlashcardDocument } from "../flashcards";
+import { initialSchedule } from "../scheduler";
+import type { SessionRecord } from "../sessions";
+import type { TranscriptEntryDocument } from "../transcripts";
+import { migrateLegacyData } from "./legacy";
+import type {
+  AttemptDocument,
+  FlashcardQuery,
+  SessionOverview,
+  Storage,
+  UserDocument,
+} from "./types";
+
+const DUPLICATE_KEY = 11000;
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function flashcardFilter(userId: ObjectId, query: FlashcardQuery): Filter<FlashcardDocument> {
+  const conditions: Filter<FlashcardDocument>[] = [{ userId }];
+
+  if (query.topic !== undefined) conditions.push({ topic: query.topic });
+  if (query.sessionId !== undefined) conditions.push({ sessionId: query.sessionId });
+  if (query.search) {
+    const pattern = new RegExp(escapeRegex(query.search), "i");
+    conditions.push({ $or: [{ question: pattern }, { answer: pattern }] });
+  }
+  if (query.createdAfter || query.createdBefore) {
+    conditions.push({
+      createdAt: {
+        ...(query.createdAfter ? { $gte: query.createdAfter } : {}),
+        ...(query.createdBefore ? { $lte: query.createdBefore } : {}),
+      },
+    });
+  }
+  if (query.due !== undefined) {
+    const now = new Date();
+    conditions.push(
+      query.due
+        ? { $or: [{ dueAt: { $lte: now } }, { dueAt: { $exists: false } }] }
+        : { dueAt: { $gt: now } },
+    );
+  }
+  if (query.excludeIds?.length) {
+    conditions.push({ _id: { $nin: query.excludeIds } });
+  }
+  if (query.after && query.sort) {
+    const { field, direction } = query.sort;
+    const op = direction === 1 ? "$gt" : "$lt";
+    conditions.push({
+      $or: [
+        { [field]: { [op]: query.after.value } },
+        { [field]: query.after.value, _id: { [op]: query.after.id } },
+      ],
+    } as Filter<FlashcardDocument>);
+  }
+
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
+
+function setAndUnset<T extends object>(fields: Partial<T>) {
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ""> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) $unset[key] = "";
+    else $set[key] = value;
+  }
+  return { $set, ...(Object.keys($unset).length > 0 ? { $unset } : {}) };
+}
+
+export function createMongoStorage(): Storage {
+  const collection = async <T extends object>(name: string) => (await getDb()).collection<T>(name);
+  const users = () => collection<UserDocument>("users");
+  const flashcards = () => collection<FlashcardDocument>("flashcards");
+  const attempts = () => collection<AttemptDocument>("attempts");
+  const sessions = () => collection<SessionRecord>("sessions");
+  const transcripts = () => collection<TranscriptEntryDocument>("transcripts");
+
+  const storage: Storage = {
+    name: "mongo",
+    label: "MongoDB",
+
+    users: {
+      findById: async (id) => (await users()).findOne({ _id: id }),
+      findByEmail: async (email) => (await users()).findOne({ email }),
+      findFirst: async () => (await users()).findOne({}, { sort: { createdAt: 1, _id: 1 } }),
+      create: async (user) => {
+        try {
+          const { insertedId } = await (await users()).insertOne({ ...user });
+          return insertedId;
+        } catch (error) {
+          if (error instanceof MongoServerError && error.code === DUPLICATE_KEY) return null;
+          throw error;
+        }
+      },
+    },
+
+    flashcards: {
+      create: async (card) => {
+        const { insertedId } = await (await flashcards()).insertOne({ ...card });
+        return insertedId;
+      },
+      findById: async (userId, id) => (await flashcards()).findOne({ _id: id, userId }),
+      find: async (userId, query = {}) => {
+        let cursor = (await flashcards()).find(flashcardFilter(userId, query));
+        if (query.sort) {
+          const { field, direction } = query.sort;
+          cursor = cursor.sort({ [field]: direction, _id: direction } as Sort);
+        }
+        if (query.limit) cursor = cursor.limit(query.limit);
+        return cursor.toArray();
+      },
+      count: async (userId, query = {}) =>
+        (await flashcards()).countDocuments(flashcardFilter(userId, query)),
+      topics: async (userId) => (await flashcards()).distinct("topic", { userId }),
+      countBySession: async (userId, sessionIds) => {
+        const cards = await flashcards();
+        const rows = await cards
+          .aggregate<{ _id: string; count: number }>([
+            { $match: { userId, sessionId: { $in: sessionIds } } },
+            { $group: { _id: "$sessionId", count: { $sum: 1 } } },
+          ])
+          .toArray();
+        return new Map(rows.map((row) => [row._id, row.count]));
+      },
+      update: async (userId, id, fields) =>
+        (await flashcards()).findOneAndUpdate({ _id: id, userId }, setAndUnset(fields), {
+          returnDocument: "after",
+        }),
+      recordReview: async (id, schedule, grade) => {
+        const cards = await flashcards();
+        await cards.updateOne(
+          { _id: id },
+          { $set: schedule, $inc: { [`gradeCounts.${grade}`]: 1 } },
+        );
+      },
+      delete: async (userId, ids) => {
+        const cards = await flashcards();
+        const { deletedCount } = await cards.deleteMany({ _id: { $in: ids }, userId });
+        return deletedCount;
+      },
+    },
+
+    attempts: {
+      create: async (documents) => {
+        if (documents.length === 0) return;
+        await (await attempts()).insertMany(documents.map((attempt) => ({ ...attempt })));
+      },
+      find: async (userId, filter = {}) =>
+        (await attempts())
+          .find({ userId, ...(filter.sessionId ? { sessionId: filter.sessionId } : {}) })
+          .sort({ attemptedAt: 1 })
+          .toArray(),
+    },
+
+    sessions: {
+      create: async (session) => {
+        await (await sessions()).insertOne({ ...session });
+      },
+      findOne: async (sessionId, userId) => (await sessions()).findOne({ sessionId, userId }),
+      find: async (userId, { after, limit }) =>
+        (await sessions())
+          .find({
+            userId,
+            offline: { $ne: true },
+            ...(after
+              ? {
+                  $or: [
+                    { createdAt: { $lt: after.createdAt } },
+                    { createdAt: after.createdAt, sessionId: { $lt: after.sessionId } },
+                  ],
+                }
+              : {}),
+          })
+          .sort({ createdAt: -1, sessionId: -1 })
+          .limit(limit)
+          .toArray(),
+      update: async (sessionId, userId, fields) => {
+        await (await sessions()).updateOne({ sessionId, userId }, setAndUnset(fields));
+      },
+    },
+
+    transcripts: {
+      append: async (entries) => {
+        if (entries.length === 0) return;
+        await (await transcripts()).insertMany(entries.map((entry) => ({ ...entry })));
+      },
+      find: async (sessionId, userId) =>
+        (await transcripts()).find({ sessionId, userId }).sort({ timestamp: 1, _id: 1 }).toArray(),
+      overviews: async (userId, sessionIds) => {
+        const entries = await transcripts();
+        const [turnCounts, firstLines] = await Promise.all([
+          entries
+            .aggregate<{ _id: string; count: number }>([
+              {
+                $match: {
+                  userId,
+                  sessionId: { $in: sessionIds },
+                  role: { $in: ["user", "assistant"] },
+                },
+              },
+              { $group: { _id: "$sessionId", count: { $sum: 1 } } },
+            ])
+            .toArray(),
+          entries
+            .aggregate<{ _id: string; content: string }>([
+              { $match: { userId, sessionId: { $in: sessionIds }, role: "assistant" } },
+              { $sort: { timestamp: 1 } },
+              { $group: { _id: "$sessionId", content: { $first: "$content" } } },
+            ])
+            .toArray(),
+        ]);
+
+        const overviews = new Map<string, SessionOverview>(
+          turnCounts.map((row) => [row._id, { turns: row.count }]),
+        );
+        for (const row of firstLines) {
+          overviews.set(row._id, {
+            turns: overviews.get(row._id)?.turns ?? 0,
+            firstAssistantLine: row.content,
+          });
+        }
+        return overviews;
+      },
+    },
+
+    prepare: async () => {
+      await (await users()).createIndex({ email: 1 }, { unique: true });
+      await (await transcripts()).createIndex({ sessionId: 1, timestamp: 1 });
+
+      // Backfill scheduling fields on cards created before the scheduler existed
+      const cards = await flashcards();
+      const backfill = await cards.updateMany({ dueAt: { $exists: false } }, [
+        { $set: { ...initialSchedule(), dueAt: "$createdAt" } },
+      ]);
+      if (backfill.modifiedCount > 0) {
+        console.log(`🗓️ Scheduled ${backfill.modifiedCount} existing flashcards`);
+      }
+
+      await migrateLegacyData(storage);
+    },
+
+    claimUnowned: async (userId) => {
+      const unowned = { userId: { $exists: false } };
+      const update = { $set: { userId } };
+      const results = await Promise.all([
+        (await flashcards()).updateMany(unowned, update),
+        (await attempts()).updateMany(unowned, update),
+        (await sessions()).updateMany(unowned, update),
+        (await transcripts()).updateMany(unowned, update),
+      ]);
+      return results.reduce((sum, result) => sum + result.modifiedCount, 0);
+    },
+
+    close: closeDb,
+  };
+
+  return storage;
+}
@@ -0,0 +1,140 @@
+/**
+ * Type definitions for storage backends
+ *
+ * Each backend implements the same repositories; the rest of the server only talks
+ * to these interfaces. IDs are BSON ObjectIds whichever backend is in use.
+ */
+
+import type { ObjectId, WithId } from "mongodb";
+import type { FlashcardDocument } from "../flashcards";
+import type { ReviewGrade, ScheduleState } from "../scheduler";
+import type { SessionRecord } from "../sessions";
+import type { TranscriptEntryDocument } from "../transcripts";
+
+export type StorageName = "mongo" | "memory";
+
+/**
+ * Document stored for each account
+ */
+export interface UserDocument {
+  email: string;
+  passwordHash: string;
+  createdAt: Date;
+}
+
+/**
+ * One graded answer to a flashcard. Attempts from before grades existed only have
+ * `isCorrect`.
+ */
+export interface AttemptDocument {
+  userId: ObjectId;
+  sessionId?: string;
+  flashcardId?: ObjectId;
+  grade?: ReviewGrade;
+  isCorrect: boolean;
+  missedPoints: string[];
+  attemptedAt: Date;
+  // Came in with a deck import rather than from a review
+  imported?: boolean;
+}
+
+export const FLASHCARD_SORT_FIELDS = ["createdAt", "dueAt", "question", "topic"] as const;
+export type FlashcardSortField = (typeof FLASHCARD_SORT_FIELDS)[number];
+
+/**
+ * Which of a user's flashcards to load. Every condition given must match.
+ */
+export interface FlashcardQuery {
+  topic?: string;
+  sessionId?: string;
+  // Case-insensitive text to find in the question or answer
+  search?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  // Due now, or not due yet. Cards without a dueAt predate scheduling and are due.
+  due?: boolean;
+  excludeIds?: ObjectId[];
+  sort?: { field: FlashcardSortField; direction: 1 | -1 };
+  // Keyset pagination: only cards after this one in the sort order, ties broken by ID
+  after?: { value: Date | string; id: ObjectId };
+  limit?: number;
+}
+
+/**
+ * What the history list shows for one session
+ */
+export interface SessionOverview {
+  // User and assistant turns
+  turns: number;
+  firstAssistantLine?: string;
+}
+
+export interface UserRepository {
+  findById(id: ObjectId): Promise<WithId<UserDocument> | null>;
+  findByEmail(email: string): Promise<WithId<UserDocument> | null>;
+  // The account created first
+  findFirst(): Promise<WithId<UserDocument> | null>;
+  // Resolves null if the email is already taken
+  create(user: UserDocument): Promise<ObjectId | null>;
+}
+
+export interface FlashcardRepository {
+  create(card: FlashcardDocument): Promise<ObjectId>;
+  findById(userId: ObjectId, id: ObjectId): Promise<WithId<FlashcardDocument> | null>;
+  find(userId: ObjectId, query?: FlashcardQuery): Promise<WithId<FlashcardDocument>[]>;
+  count(userId: ObjectId, query?: FlashcardQuery): Promise<number>;
+  topics(userId: ObjectId): Promise<string[]>;
+  countBySession(userId: ObjectId, sessionIds: string[]): Promise<Map<string, number>>;
+  // Resolves the updated card, or null if the user has no such card
+  update(
+    userId: ObjectId,
+    id: ObjectId,
+    fields: Partial<FlashcardDocument>,
+  ): Promise<WithId<FlashcardDocument> | null>;
+  // Store a card's new schedule and count the grade towards its tally
+  recordReview(id: ObjectId, schedule: ScheduleState, grade: ReviewGrade): Promise<void>;
+  // Resolves how many cards were deleted
+  delete(userId: ObjectId, ids: ObjectId[]): Promise<number>;
+}
+
+export interface AttemptRepository {
+  create(attempts: AttemptDocument[]): Promise<void>;
+  // Oldest first
+  find(userId: ObjectId, filter?: { sessionId?: string }): Promise<WithId<AttemptDocument>[]>;
+}
+
+export interface SessionRepository {
+  create(session: SessionRecord): Promise<void>;
+  findOne(sessionId: string, userId: ObjectId): Promise<SessionRecord | null>;
+  // Newest first, leaving out offline sessions, which have no conversation. Keyset
+  // pagination: `after` is the last session of the previous page, ties broken by ID.
+  find(
+    userId: ObjectId,
+    options: { after?: { createdAt: Date; sessionId: string }; limit: number },
+  ): Promise<SessionRecord[]>;
+  // Fields set to undefined are removed
+  update(sessionId: string, userId: ObjectId, fields: Partial<SessionRecord>): Promise<void>;
+}
+
+export interface TranscriptRepository {
+  append(entries: TranscriptEntryDocument[]): Promise<void>;
+  // In the order it happened
+  find(sessionId: string, userId: ObjectId): Promise<WithId<TranscriptEntryDocument>[]>;
+  overviews(userId: ObjectId, sessionIds: string[]): Promise<Map<string, SessionOverview>>;
+}
+
+export interface Storage {
+  name: StorageName;
+  // Shown in logs and /health
+  label: string;
+  users: UserRepository;
+  flashcards: FlashcardRepository;
+  attempts: AttemptRepository;
+  sessions: SessionRepository;
+  transcripts: TranscriptRepository;
+  // Create indexes and migrate old data. Run once before serving requests.
+  prepare(): Promise<void>;
+  // Give every document saved without a userId to this user. Resolves how many there were.
+  claimUnowned(userId: ObjectId): Promise<number>;
+  close(): Promise<void>;
+}
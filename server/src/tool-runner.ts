@@ -0,0 +1,59 @@
+/**
+ * Tool execution shared by the HTTP tool endpoint and the realtime relay
+ *
+ * A tool only runs for an unexpired session owned by the user, and only if it belongs
+ * to the toolset of the agent the session is currently pinned to.
+ */
+
+import { getAgentConfig } from "./agents";
+import type { ToolResult } from "./agents/types";
+import { findActiveSession } from "./sessions";
+import { recordToolCall } from "./transcripts";
+
+export type ToolRun =
+  { ok: true; result: ToolResult } | { ok: false; status: number; error: string };
+
+/**
+ * Run a tool call made during a session and record it in the session's transcript
+ */
+export async function runSessionTool(
+  sessionId: string,
+  userId: string,
+  toolName: string,
+  args: Record<string, unknown>,
+): Promise<ToolRun> {
+  const lookup = await findActiveSession(sessionId, userId);
+
+  if (!lookup.ok) {
+    console.error(`[${sessionId}] ❌ Rejected tool call ${toolName}: ${lookup.error}`);
+    return lookup;
+  }
+
+  const { session } = lookup;
+  console.log(`[${sessionId}] 🛠️  Executing tool: ${toolName}`);
+
+  // Only tools from the session's own agent may run
+  const agent = await getAgentConfig(session.agent, { userId, topic: session.topic });
+  const tool = agent.tools.find((t) => t.type === "function" && t.function.name === toolName);
+
+  if (!tool || tool.type !== "function") {
+    console.error(`[${sessionId}] ❌ Tool ${toolName} not available to ${session.agent} agent`);
+    return {
+      ok: false,
+      status: 403,
+      error: `Tool not allowed for ${session.agent} agent: ${toolName}`,
+    };
+  }
+
+  const result = await tool.execute(args, { sessionId, userId });
+  console.log(`[${sessionId}] ✅ Tool result:`, result);
+
+  // A transcript write failing shouldn't fail the tool call the model is waiting on
+  try {
+    await recordToolCall(sessionId, userId, toolName, args, result);
+  } catch (error) {
+    console.error(`[${sessionId}] ⚠️ Failed to record tool call in transcript:`, error);
+  }
+
+  return { ok: true, result };
+}
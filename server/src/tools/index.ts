@@ -4,13 +4,25 @@
 
 import { ObjectId } from "mongodb";
 import type { ToolDefinition } from "../agents/types";
-import { getDb } from "../db";
+import { getStorage } from "../storage";
+import {
+  REVIEW_GRADES,
+  applyReview,
+  gradeToQuality,
+  isPassingGrade,
+  isReviewGrade,
+  scheduleFromDocument,
+} from "../scheduler";
+import type { ReviewGrade } from "../scheduler";
+import { recordQueuedGrade, serveNextFlashcard } from "../review-queue";
+import { newFlashcardDocument } from "../flashcards";
 
 /**
  * Context passed to tool handlers
  */
 export interface ToolContext {
   sessionId: string;
+  userId: string;
 }
 
 /**
@@ -64,29 +76,23 @@ export const createFlashcardTool: ToolDefinition = {
     console.log(`[${context.sessionId}]    Q: ${question}`);
     console.log(`[${context.sessionId}]    A: ${answer}`);
 
-    const db = await getDb();
-    await db.collection("flashcards").insertOne({
-      sessionId: context.sessionId,
-      question,
-      answer,
-      topic,
-      createdAt: new Date(),
-    });
+    const insertedId = await getStorage().flashcards.create(
+      newFlashcardDocument(context.userId, { question, answer, topic }, context.sessionId),
+    );
 
-    return { success: true, question, topic };
+    return { success: true, flashcardId: insertedId.toString(), question, topic };
   },
 };
 
 /**
- * Tool to get a random flashcard for review
+ * Tool to get the next flashcard due for review, most overdue first
  */
-let previousFlashcardId: string | undefined;
 export const getRandomFlashcardTool: ToolDefinition = {
   type: "function",
   function: {
     name: "get_random_flashcard",
     description:
-      "Get a random flashcard from the user's collection to quiz them on. Returns the question and answer.",
+      "Get the next flashcard that is due for review from the user's collection to quiz them on. Returns the question and answer, plus how far through this session's due cards the user is.",
     parameters: {
       type: "object",
       properties: {},
@@ -94,89 +100,115 @@ export const getRandomFlashcardTool: ToolDefinition = {
     },
   },
   execute: async (_args, context) => {
-    const db = await getDb();
-
-    const matchStage = previousFlashcardId
-      ? { $match: { _id: { $ne: new ObjectId(previousFlashcardId) } } }
-      : { $match: {} };
-
-    const flashcards = await db
-      .collection("flashcards")
-      .aggregate([
-        matchStage,
-        // optionally also filter by sessionId:
-        // { $match: { sessionId: context.sessionId } },
-        { $sample: { size: 1 } },
-      ])
-      .toArray();
-
-    if (flashcards.length === 0) {
+    const { flashcard, progress } = await serveNextFlashcard(context.sessionId, context.userId);
+
+    if (!flashcard) {
+      if (progress.total > 0 && progress.skipped > 0) {
+        return {
+          found: false,
+          message: `That was the last due flashcard in this session. The user reviewed ${progress.reviewed} of ${progress.total}; ${progress.skipped} went ungraded.`,
+          progress,
+        };
+      }
+      if (progress.total > 0) {
+        return {
+          found: false,
+          message: `The user has finished all ${progress.total} due flashcards in this session. Congratulate them!`,
+          progress,
+        };
+      }
+
+      const next = await getStorage().flashcards.find(new ObjectId(context.userId), {
+        due: false,
+        sort: { field: "dueAt", direction: 1 },
+        limit: 1,
+      });
+
+      if (next.length === 0) {
+        return {
+          found: false,
+          message: "No flashcards available. The user should learn something first.",
+        };
+      }
+
       return {
         found: false,
-        message: "No flashcards available. The user should learn something first.",
+        message:
+          "No flashcards are due for review right now. The user is all caught up and could learn something new.",
+        nextDueAt: next[0].dueAt.toISOString(),
       };
     }
 
-    const flashcard = flashcards[0];
-    previousFlashcardId = flashcard._id.toString();
-
-    // Store the current flashcard for the session
-    await db
-      .collection("sessions")
-      .updateOne(
-        { sessionId: context.sessionId },
-        { $set: { currentFlashcardId: flashcard._id } },
-        { upsert: true },
-      );
+    console.log(
+      `[${context.sessionId}] 🃏 Serving flashcard ${progress.total - progress.remaining + 1} of ${progress.total}`,
+    );
 
     return {
       found: true,
       question: flashcard.question,
       answer: flashcard.answer,
       topic: flashcard.topic,
+      progress,
     };
   },
 };
 
 interface ValidateAnswerArgs {
-  isCorrect: boolean;
+  grade: ReviewGrade;
+  missedPoints?: unknown;
 }
 
 /**
- * Tool to validate and log the user's answer to a flashcard
+ * Tool to grade and log the user's answer to a flashcard
  */
 export const validateAnswerTool: ToolDefinition = {
   type: "function",
   function: {
     name: "validate_answer",
     description:
-      "Record whether the user's answer to the current flashcard is correct. Call this after the user answers a flashcard question. IT DOES NOT NEED TO BE AN EXACT match, just around the general idea of the flashcard. IT IS OK to have parts of the flashcard that the user does not mention, that still counts as correct, but make sure to bring up any parts the user left out in their answer.",
+      "Grade the user's answer to the current flashcard. Call this after the user answers a flashcard question. IT DOES NOT NEED TO BE AN EXACT match, just around the general idea of the flashcard. IT IS OK to have parts of the flashcard that the user does not mention, that still counts as correct, but make sure to bring up any parts the user left out in their answer and list them in missedPoints.",
     parameters: {
       type: "object",
       properties: {
-        isCorrect: {
-          type: "boolean",
-          description: "Whether the user's answer is correct",
+        grade: {
+          type: "string",
+          description:
+            "How well the user recalled the answer: 'again' if they got it wrong or couldn't remember, 'hard' if they got there with hesitation or hints, 'good' for a correct answer, 'easy' for an instant, complete answer",
+          enum: REVIEW_GRADES,
+        },
+        missedPoints: {
+          type: "array",
+          description:
+            "Short notes on the parts of the answer the user left out or got wrong, if any",
+          items: { type: "string" },
         },
       },
-      required: ["isCorrect"],
+      required: ["grade"],
     },
   },
   execute: async (args, context) => {
-    const { isCorrect } = args as unknown as ValidateAnswerArgs;
-    const db = await getDb();
+    const { grade, missedPoints = [] } = args as unknown as ValidateAnswerArgs;
+
+    if (!isReviewGrade(grade)) {
+      return { recorded: false, error: `Invalid grade: ${grade}` };
+    }
+    if (!Array.isArray(missedPoints) || !missedPoints.every((p) => typeof p === "string")) {
+      return { recorded: false, error: "missedPoints must be a list of strings" };
+    }
+
+    const isCorrect = isPassingGrade(grade);
+    const storage = getStorage();
 
     // Get the current flashcard from the session
-    const session = await db.collection("sessions").findOne({ sessionId: context.sessionId });
+    const userId = new ObjectId(context.userId);
+    const session = await storage.sessions.findOne(context.sessionId, userId);
 
     if (!session?.currentFlashcardId) {
       console.log(`[${context.sessionId}] ⚠️ No current flashcard to validate`);
       return { recorded: false, error: "No current flashcard to validate" };
     }
 
-    const flashcard = await db
-      .collection("flashcards")
-      .findOne({ _id: session.currentFlashcardId });
+    const flashcard = await storage.flashcards.findById(userId, session.currentFlashcardId);
 
     if (!flashcard) {
       console.log(`[${context.sessionId}] ⚠️ Flashcard not found`);
@@ -184,22 +216,48 @@ export const validateAnswerTool: ToolDefinition = {
     }
 
     // Create an attempt record
-    await db.collection("attempts").insertOne({
-      sessionId: context.sessionId,
-      flashcardId: flashcard._id,
-      isCorrect,
-      attemptedAt: new Date(),
-    });
+    const attemptedAt = new Date();
+    await storage.attempts.create([
+      {
+        userId,
+        sessionId: context.sessionId,
+        flashcardId: flashcard._id,
+        grade,
+        isCorrect,
+        missedPoints,
+        attemptedAt,
+      },
+    ]);
+
+    // Reschedule the card and keep a running tally of grades for accuracy stats
+    const schedule = applyReview(
+      scheduleFromDocument(flashcard),
+      gradeToQuality(grade),
+      attemptedAt,
+    );
+    await storage.flashcards.recordReview(flashcard._id, schedule, grade);
+    // The card is graded; a repeated call mustn't record it again
+    await storage.sessions.update(context.sessionId, userId, { currentFlashcardId: null });
 
     if (isCorrect) {
-      console.log(`[${context.sessionId}] ✅ CORRECT`);
+      console.log(`[${context.sessionId}] ✅ CORRECT (${grade})`);
       console.log(`[${context.sessionId}]    Q: ${flashcard.question}`);
     } else {
       console.log(`[${context.sessionId}] ❌ INCORRECT`);
       console.log(`[${context.sessionId}]    Q: ${flashcard.question}`);
       console.log(`[${context.sessionId}]    Expected: ${flashcard.answer}`);
     }
+    if (missedPoints.length > 0) {
+      console.log(`[${context.sessionId}]    Missed: ${missedPoints.join("; ")}`);
+    }
+
+    const progress = await recordQueuedGrade(
+      context.sessionId,
+      context.userId,
+      flashcard._id,
+      grade,
+    );
 
-    return { recorded: true, isCorrect };
+    return { recorded: true, grade, isCorrect, nextReviewInDays: schedule.interval, progress };
   },
 };
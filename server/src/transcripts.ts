@@ -0,0 +1,125 @@
+/**
+ * Conversation transcripts
+ *
+ * Every session's conversation is stored as a list of entries. The client reports
+ * finished user and assistant turns; tool calls and the flashcards they create are
+ * recorded here on the server as they execute.
+ */
+
+import { ObjectId } from "mongodb";
+import type { WithId } from "mongodb";
+import { getStorage } from "./storage";
+import type { ToolResult } from "./agents/types";
+
+export const TRANSCRIPT_ROLES = ["user", "assistant", "tool", "flashcard"] as const;
+export type TranscriptRole = (typeof TRANSCRIPT_ROLES)[number];
+
+/**
+ * Roles the client may report - the rest are only written by the server
+ */
+export const CLIENT_TRANSCRIPT_ROLES = ["user", "assistant"] as const;
+
+export const MAX_TRANSCRIPT_CONTENT_LENGTH = 20000;
+
+/**
+ * Transcript entry as stored
+ */
+export interface TranscriptEntryDocument {
+  sessionId: string;
+  userId: ObjectId;
+  role: TranscriptRole;
+  content: string;
+  timestamp: Date;
+  toolName?: string;
+  args?: Record<string, unknown>;
+  result?: unknown;
+  flashcardId?: ObjectId;
+}
+
+export type TranscriptEntryInput = Omit<TranscriptEntryDocument, "sessionId" | "userId">;
+
+/**
+ * Append entries to a session's transcript
+ */
+export async function appendTranscript(
+  sessionId: string,
+  userId: string,
+  entries: TranscriptEntryInput[],
+): Promise<void> {
+  if (entries.length === 0) return;
+  const owner = new ObjectId(userId);
+  await getStorage().transcripts.append(
+    entries.map((entry) => ({ sessionId, userId: owner, ...entry })),
+  );
+}
+
+/**
+ * Record a tool call and, for created flashcards, the card itself
+ */
+export async function recordToolCall(
+  sessionId: string,
+  userId: string,
+  toolName: string,
+  args: Record<string, unknown>,
+  result: ToolResult,
+): Promise<void> {
+  const timestamp = new Date();
+  const entries: TranscriptEntryInput[] = [
+    { role: "tool", content: toolName, toolName, args, result, timestamp },
+  ];
+
+  if (
+    toolName === "create_flashcard" &&
+    typeof result === "object" &&
+    result?.success === true &&
+    typeof result.flashcardId === "string"
+  ) {
+    entries.push({
+      role: "flashcard",
+      content: `Q: ${args.question}\nA: ${args.answer}`,
+      flashcardId: new ObjectId(result.flashcardId),
+      timestamp,
+    });
+  }
+
+  await appendTranscript(sessionId, userId, entries);
+}
+
+/**
+ * Load a session's transcript in the order it happened
+ */
+export async function loadTranscript(
+  sessionId: string,
+  userId: string,
+): Promise<WithId<TranscriptEntryDocument>[]> {
+  return getStorage().transcripts.find(sessionId, new ObjectId(userId));
+}
+
+const SUMMARY_TURNS = 12;
+const SUMMARY_TURN_LENGTH = 300;
+
+/**
+ * Condense the most recent turns of a session into a short plain-text recap, for
+ * handing the conversation over to another agent. Returns an empty string if nothing
+ * has been said yet.
+ */
+export async function summarizeTranscript(sessionId: string, userId: string): Promise<string> {
+  const entries = await loadTranscript(sessionId, userId);
+  const turns = entries
+    .filter((e) => e.role === "user" || e.role === "assistant")
+    .slice(-SUMMARY_TURNS)
+    .map((e) => {
+      const text = e.content.replace(/\s+/g, " ").trim();
+      const clipped =
+        text.length > SUMMARY_TURN_LENGTH ? `${text.slice(0, SUMMARY_TURN_LENGTH)}...` : text;
+      return `${e.role === "user" ? "User" : "Assistant"}: ${clipped}`;
+    });
+  const created = entries
+    .filter((e) => e.role === "flashcard")
+    .map((e) => `- ${e.content.split("\n")[0].replace(/^Q: /, "")}`);
+
+  const sections = [];
+  if (turns.length > 0) sections.push(`Recent conversation:\n${turns.join("\n")}`);
+  if (created.length > 0) sections.push(`Flashcards created so far:\n${created.join("\n")}`);
+  return sections.join("\n\n");
+}
@@ -0,0 +1,160 @@
+/**
+ * Request validation helpers
+ *
+ * Each reader pulls one field out of a request body or query, records a FieldError
+ * when it is malformed, and returns the parsed value. Routes collect the errors and
+ * answer with a single 400 listing every problem.
+ */
+
+import type { Response } from "express";
+import { ObjectId } from "mongodb";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+type Source = Record<string, unknown>;
+
+/**
+ * Send the standard 400 body for a request that failed validation
+ */
+export function sendValidationErrors(res: Response, errors: FieldError[]) {
+  return res.status(400).json({ error: "Invalid request", details: errors });
+}
+
+/**
+ * Read a trimmed, non-empty string
+ */
+export function readString(
+  source: Source,
+  field: string,
+  errors: FieldError[],
+  options: { required?: boolean; maxLength?: number } = {},
+): string | undefined {
+  const value = source[field];
+
+  if (value === undefined || value === null || value === "") {
+    if (options.required) errors.push({ field, message: "is required" });
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    errors.push({ field, message: "must be a string" });
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed) {
+    errors.push({ field, message: "must not be blank" });
+    return undefined;
+  }
+  if (options.maxLength && trimmed.length > options.maxLength) {
+    errors.push({ field, message: `must be at most ${options.maxLength} characters` });
+    return undefined;
+  }
+  return trimmed;
+}
+
+/**
+ * Read an ISO 8601 date
+ */
+export function readDate(source: Source, field: string, errors: FieldError[]): Date | undefined {
+  const value = source[field];
+  if (value === undefined || value === "") return undefined;
+
+  const date = typeof value === "string" ? new Date(value) : undefined;
+  if (!date || isNaN(date.getTime())) {
+    errors.push({ field, message: "must be an ISO 8601 date" });
+    return undefined;
+  }
+  return date;
+}
+
+/**
+ * Read an integer within bounds (query strings are accepted)
+ */
+export function readInteger(
+  source: Source,
+  field: string,
+  errors: FieldError[],
+  options: { min: number; max: number },
+): number | undefined {
+  const value = source[field];
+  if (value === undefined || value === "") return undefined;
+
+  const number = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(number) || number < options.min || number > options.max) {
+    errors.push({
+      field,
+      message: `must be an integer between ${options.min} and ${options.max}`,
+    });
+    return undefined;
+  }
+  return number;
+}
+
+/**
+ * Read a boolean (query strings "true" and "false" are accepted)
+ */
+export function readBoolean(
+  source: Source,
+  field: string,
+  errors: FieldError[],
+): boolean | undefined {
+  const value = source[field];
+  if (value === undefined || value === "") return undefined;
+  if (value === true || value === "true") return true;
+  if (value === false || value === "false") return false;
+
+  errors.push({ field, message: "must be true or false" });
+  return undefined;
+}
+
+/**
+ * Read one of a fixed set of string values
+ */
+export function readEnum<T extends string>(
+  source: Source,
+  field: string,
+  errors: FieldError[],
+  allowed: readonly T[],
+  options: { required?: boolean } = {},
+): T | undefined {
+  const value = source[field];
+  if (value === undefined || value === "") {
+    if (options.required) errors.push({ field, message: "is required" });
+    return undefined;
+  }
+
+  if (typeof value !== "string" || !(allowed as readonly string[]).includes(value)) {
+    errors.push({ field, message: `must be one of: ${allowed.join(", ")}` });
+    return undefined;
+  }
+  return value as T;
+}
+
+/**
+ * Read a non-empty array of ObjectId strings
+ */
+export function readObjectIds(
+  source: Source,
+  field: string,
+  errors: FieldError[],
+  options: { maxItems: number },
+): ObjectId[] | undefined {
+  const value = source[field];
+
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push({ field, message: "must be a non-empty array of IDs" });
+    return undefined;
+  }
+  if (value.length > options.maxItems) {
+    errors.push({ field, message: `must contain at most ${options.maxItems} IDs` });
+    return undefined;
+  }
+  if (!value.every((id) => typeof id === "string" && ObjectId.isValid(id))) {
+    errors.push({ field, message: "contains an invalid ID" });
+    return undefined;
+  }
+  return value.map((id) => new ObjectId(id as string));
+}
@@ -0,0 +1,345 @@
+/**
+ * WebRTC transport
+ *
+ * An alternative to the WebSocket relay for browsers: audio travels as Opus over a
+ * WebRTC audio track, and realtime events travel over a data channel. The server
+ * decodes the browser's Opus to PCM16 for the realtime API, and encodes the model's
+ * PCM16 replies back to Opus, paced in real time. Everything else, including
+ * server-side tool calls, is the relay's.
+ *
+ * Signaling runs over a WebSocket: the server sends the offer, the browser answers,
+ * and both sides trickle ICE candidates. `ready` follows once the data channel opens.
+ */
+
+import type { Request } from "express";
+import WebSocket from "ws";
+import type { RawData } from "ws";
+import OpusScript from "opusscript";
+import {
+  RTCIceCandidate,
+  RTCPeerConnection,
+  RTCRtpCodecParameters,
+  RtpHeader,
+  RtpPacket,
+} from "werift";
+import type { RealtimeProvider } from "./providers";
+import { authenticateRealtime, createRelay } from "./relay";
+import type { SignalingMessage, XAIMessage } from "./types";
+
+// Opus in WebRTC always runs at 48kHz; we use mono and send the realtime API the same rate
+const SAMPLE_RATE = 48000;
+const FRAME_MS = 20;
+const FRAME_SAMPLES = (SAMPLE_RATE / 1000) * FRAME_MS;
+const FRAME_BYTES = FRAME_SAMPLES * 2;
+// Browser audio is batched before being sent upstream, like the WebSocket client does
+const INPUT_BATCH_BYTES = (SAMPLE_RATE / 1000) * 100 * 2;
+
+const ICE_SERVERS = (process.env.STUN_URLS || "stun:stun.l.google.com:19302")
+  .split(",")
+  .map((urls) => ({ urls: urls.trim() }));
+
+const AUDIO_OVERRIDES = {
+  audio: {
+    input: { format: { type: "audio/pcm", rate: SAMPLE_RATE } },
+    output: { format: { type: "audio/pcm", rate: SAMPLE_RATE } },
+  },
+};
+
+/**
+ * Serve a session over WebRTC, negotiated on a signaling WebSocket opened with the
+ * session ID in the path and the user's auth `token` as a query parameter
+ */
+export async function handleSignalingConnection(
+  ws: WebSocket,
+  req: Request,
+  provider: RealtimeProvider,
+) {
+  // Hold on to anything the browser sends while the session is being checked
+  const early: RawData[] = [];
+  const bufferEarly = (data: RawData) => early.push(data);
+  ws.on("message", bufferEarly);
+  // The browser can give up while the session is being set up
+  let clientClosed = false;
+  ws.once("close", () => {
+    clientClosed = true;
+  });
+
+  const sessionId = req.params.sessionId ?? "";
+  const token = typeof req.query.token === "string" ? req.query.token : "";
+  const auth = await authenticateRealtime(sessionId, token);
+
+  if (!auth.ok) {
+    ws.close(auth.code, auth.reason);
+    return;
+  }
+  if (clientClosed) return;
+
+  const signal = (message: SignalingMessage) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  const pc = new RTCPeerConnection({
+    codecs: {
+      audio: [
+        new RTCRtpCodecParameters({ mimeType: "audio/opus", clockRate: SAMPLE_RATE, channels: 2 }),
+      ],
+    },
+    iceServers: ICE_SERVERS,
+  });
+  const transceiver = pc.addTransceiver("audio", { direction: "sendrecv" });
+  const channel = pc.createDataChannel("realtime");
+
+  const decoder = new OpusScript(SAMPLE_RATE, 1, OpusScript.Application.VOIP);
+  const encoder = new OpusScript(SAMPLE_RATE, 1, OpusScript.Application.VOIP);
+
+  // Events for the browser until the data channel opens
+  const pendingEvents: string[] = [];
+  // Browser audio waiting to be sent upstream
+  let input: Buffer[] = [];
+  let inputBytes = 0;
+  // Model audio waiting to be sent to the browser
+  let output = Buffer.alloc(0);
+  let outputDone = false;
+  // Output items with audio in `output` or sent from it, oldest first, and how much of
+  // each has gone out, so a reply the user talks over can be truncated where they were
+  let outputItems: { itemId: string; queuedBytes: number; sentBytes: number }[] = [];
+  let responding = false;
+  // Upstream only takes our audio format once it has applied the session settings
+  let upstreamReady = false;
+  let closed = false;
+
+  // RTP timestamps follow the wall clock, so they keep advancing through silence
+  const clockStart = performance.now();
+  const timestampBase = Math.floor(Math.random() * 0xffffffff);
+  let sequenceNumber = Math.floor(Math.random() * 0xffff);
+  let timestamp = timestampBase;
+  let nextFrameAt = 0;
+  let speaking = false;
+
+  const sendToBrowser = (data: string) => {
+    if (channel.readyState === "open") channel.send(data);
+    else pendingEvents.push(data);
+  };
+
+  const bytesToMs = (bytes: number) => (bytes / 2 / SAMPLE_RATE) * 1000;
+
+  const queueOutputItem = (itemId: string, bytes: number) => {
+    const last = outputItems[outputItems.length - 1];
+    if (last?.itemId === itemId) {
+      last.queuedBytes += bytes;
+    } else {
+      outputItems.push({ itemId, queuedBytes: bytes, sentBytes: 0 });
+    }
+    // The audio itself stays here, but the browser still needs to know how much of
+    // each reply there is to tell how much of it the user heard
+    sendToBrowser(
+      JSON.stringify({
+        type: "output_audio.queued",
+        item_id: itemId,
+        duration_ms: bytesToMs(bytes),
+      }),
+    );
+  };
+
+  const markSent = (bytes: number) => {
+    while (bytes > 0 && outputItems.length > 0) {
+      const item = outputItems[0];
+      const sent = Math.min(bytes, item.queuedBytes - item.sentBytes);
+      item.sentBytes += sent;
+      bytes -= sent;
+      // The last item may still get more audio
+      if (item.sentBytes < item.queuedBytes || outputItems.length === 1) break;
+      outputItems.shift();
+    }
+  };
+
+  // Tell the provider the user only heard the replies up to where the call had got
+  const truncateUnsentAudio = () => {
+    outputItems.forEach((item, index) => {
+      const generating = responding && index === outputItems.length - 1;
+      if (item.sentBytes >= item.queuedBytes && !generating) return;
+      relay.sendUpstream({
+        type: "conversation.item.truncate",
+        item_id: item.itemId,
+        content_index: 0,
+        audio_end_ms: Math.floor(bytesToMs(item.sentBytes)),
+      });
+    });
+  };
+
+  const relay = await createRelay({
+    sessionId,
+    userId: auth.userId,
+    session: auth.session,
+    provider,
+    client: {
+      send: sendToBrowser,
+      close: (code, reason) => {
+        signal({ type: "error", message: reason });
+        if (ws.readyState === WebSocket.OPEN) ws.close(code, reason);
+      },
+    },
+    sessionOverrides: AUDIO_OVERRIDES,
+    onUpstreamMessage: (message: XAIMessage) => {
+      if (message.type === "session.updated") {
+        upstreamReady = true;
+      }
+      if (message.type === "response.created") responding = true;
+      if (message.type === "response.done") responding = false;
+      // The user talked over the model; drop what it hasn't said yet
+      if (message.type === "input_audio_buffer.speech_started") {
+        truncateUnsentAudio();
+        output = Buffer.alloc(0);
+        outputDone = false;
+        outputItems = [];
+      }
+      if (message.type === "response.output_audio.delta") {
+        const pcm = Buffer.from(message.delta as string, "base64");
+        output = Buffer.concat([output, pcm]);
+        outputDone = false;
+        queueOutputItem(message.item_id as string, pcm.length);
+        return true;
+      }
+      if (message.type === "response.output_audio.done") {
+        outputDone = true;
+      }
+    },
+  });
+
+  if (clientClosed) {
+    console.log(`[${sessionId}] 🔌 Signaling disconnected during setup`);
+    relay.close();
+    pc.close().catch(() => {});
+    decoder.delete();
+    encoder.delete();
+    return;
+  }
+
+  const sendFrame = async (pcm: Buffer) => {
+    const packet = new RtpPacket(
+      new RtpHeader({ sequenceNumber, timestamp, marker: !speaking }),
+      encoder.encode(pcm, FRAME_SAMPLES),
+    );
+    sequenceNumber = (sequenceNumber + 1) & 0xffff;
+    timestamp = (timestamp + FRAME_SAMPLES) >>> 0;
+    speaking = true;
+    await transceiver.sender.sendRtp(packet);
+  };
+
+  // Send the model's audio one frame at a time, at the rate it should be heard
+  const pacer = setInterval(() => {
+    const now = performance.now();
+
+    if (output.length < FRAME_BYTES && !(outputDone && output.length > 0)) {
+      speaking = false;
+      return;
+    }
+
+    if (!speaking) {
+      const elapsedSamples = Math.round((now - clockStart) * (SAMPLE_RATE / 1000));
+      timestamp = (timestampBase + elapsedSamples) >>> 0;
+      nextFrameAt = now;
+    }
+
+    while (nextFrameAt <= now && output.length > 0) {
+      if (output.length < FRAME_BYTES && !outputDone) break;
+
+      const frame = Buffer.alloc(FRAME_BYTES);
+      output.copy(frame, 0, 0, FRAME_BYTES);
+      markSent(Math.min(FRAME_BYTES, output.length));
+      output = output.subarray(Math.min(FRAME_BYTES, output.length));
+      nextFrameAt += FRAME_MS;
+      sendFrame(frame).catch((error) => {
+        console.error(`[${sessionId}] ❌ Failed to send audio:`, error);
+      });
+    }
+  }, FRAME_MS / 2);
+
+  transceiver.onTrack.subscribe((track) => {
+    track.onReceiveRtp.subscribe((rtp) => {
+      if (!upstreamReady || closed) return;
+
+      try {
+        const pcm = decoder.decode(rtp.payload);
+        input.push(pcm);
+        inputBytes += pcm.length;
+      } catch (error) {
+        console.error(`[${sessionId}] ⚠️ Dropping undecodable audio packet:`, error);
+        return;
+      }
+
+      if (inputBytes >= INPUT_BATCH_BYTES) {
+        relay.sendUpstream({
+          type: "input_audio_buffer.append",
+          audio: Buffer.concat(input).toString("base64"),
+        });
+        input = [];
+        inputBytes = 0;
+      }
+    });
+  });
+
+  channel.stateChanged.subscribe((state) => {
+    if (state !== "open") return;
+    console.log(`[${sessionId}] ✅ WebRTC data channel open`);
+    for (const data of pendingEvents.splice(0)) channel.send(data);
+    signal({ type: "ready" });
+  });
+
+  channel.onMessage.subscribe((data) => relay.handleClientMessage(data.toString()));
+
+  pc.onIceCandidate.subscribe((candidate) => {
+    if (candidate) signal({ type: "ice-candidate", candidate: candidate.toJSON() });
+  });
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(pacer);
+    relay.close();
+    pc.close().catch(() => {});
+    decoder.delete();
+    encoder.delete();
+    if (ws.readyState === WebSocket.OPEN) ws.close();
+  };
+
+  pc.connectionStateChange.subscribe((state) => {
+    console.log(`[${sessionId}] 📡 WebRTC connection ${state}`);
+    if (state === "failed" || state === "closed") cleanup();
+  });
+
+  const handleSignal = async (data: RawData) => {
+    let message: SignalingMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      console.error(`[${sessionId}] ⚠️ Dropping malformed signaling message`);
+      return;
+    }
+
+    try {
+      if (message.type === "answer") {
+        await pc.setRemoteDescription({ type: "answer", sdp: message.sdp });
+      } else if (message.type === "ice-candidate" && message.candidate) {
+        await pc.addIceCandidate(new RTCIceCandidate(message.candidate));
+      }
+    } catch (error) {
+      console.error(`[${sessionId}] ❌ Signaling error:`, error);
+      signal({ type: "error", message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  ws.off("message", bufferEarly);
+  ws.on("message", handleSignal);
+  ws.on("close", () => {
+    console.log(`[${sessionId}] 🔌 Signaling disconnected`);
+    cleanup();
+  });
+
+  const offer = await pc.createOffer();
+  await pc.setLocalDescription(offer);
+  signal({ type: "offer", sdp: pc.localDescription?.sdp ?? offer.sdp });
+  console.log(`[${sessionId}] 📡 WebRTC offer sent`);
+
+  early.splice(0).forEach(handleSignal);
+}